@@ -0,0 +1,29 @@
+import { describe, expect, test } from "vitest";
+import { isActionAborted, isActionFailed, isActionOk, matchActionResult } from "../action";
+import type { ActionResult } from "../types";
+
+const noop = () => void 0
+
+const okResult: ActionResult<number> = { status: 'ok', aborted: false, value: 1, removeCleanup: noop }
+const abortedResult: ActionResult<number> = { status: 'aborted', aborted: true, removeCleanup: noop }
+const failedResult: ActionResult<number> = { status: 'failed', aborted: false, error: new Error('failed'), removeCleanup: noop }
+
+describe('ActionResult 辅助函数', () => {
+    test('isActionOk / isActionAborted / isActionFailed 应该按 status 区分结果', () => {
+        expect([okResult, abortedResult, failedResult].map(isActionOk)).toEqual([true, false, false])
+        expect([okResult, abortedResult, failedResult].map(isActionAborted)).toEqual([false, true, false])
+        expect([okResult, abortedResult, failedResult].map(isActionFailed)).toEqual([false, false, true])
+    })
+
+    test('matchActionResult 应该分发到对应的分支', () => {
+        const matcher = {
+            ok: (value: number) => `ok:${String(value)}`,
+            aborted: () => 'aborted',
+            failed: (error: unknown) => `failed:${(error as Error).message}`,
+        }
+
+        expect(matchActionResult(okResult, matcher)).toBe('ok:1')
+        expect(matchActionResult(abortedResult, matcher)).toBe('aborted')
+        expect(matchActionResult(failedResult, matcher)).toBe('failed:failed')
+    })
+})
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+
+describe('detach 与 adopt', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController({ debugLabel: 'root' })
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('detach 之后父 controller abort 不应该影响子 controller', () => {
+        const child = ctrl.createController()
+        child.detach()
+
+        ctrl.abort()
+
+        expect(child.aborted()).toBe(false)
+        expect(child.parent).toBeNull()
+        child.abort()
+    })
+
+    test('adopt 之后应该跟随新的父 controller abort，且不再受原父 controller 影响', () => {
+        const trace = vitest.fn()
+        const prefetch = ctrl.createController({ debugLabel: 'prefetch' })
+        const route = ctrl.createController({ debugLabel: 'route' })
+        const work = prefetch.createController({ debugLabel: 'work' })
+        work.onAbort(trace)
+
+        route.adopt(work)
+        prefetch.abort()
+        expect(trace).not.toBeCalled()
+        expect(work.parent).toBe(route)
+
+        route.abort()
+        expect(trace).toHaveBeenCalledTimes(1)
+    })
+
+    test('被 adopt 的 controller 应该先于新父 controller 自身的 cleanup 被 abort', () => {
+        const trace = vitest.fn()
+        const route = ctrl.createController()
+        route.onAbort(() => { trace('route') })
+
+        const work = ctrl.createController()
+        work.onAbort(() => { trace('work') })
+        route.adopt(work)
+
+        route.abort()
+
+        expect(trace.mock.calls).toEqual([['work'], ['route']])
+    })
+
+    test('不能 adopt 自身或者祖先 controller', () => {
+        const child = ctrl.createController()
+        const grandChild = child.createController()
+
+        expect(() => { grandChild.adopt(ctrl) }).toThrow('ancestor')
+        expect(() => { child.adopt(child) }).toThrow('ancestor')
+        expect(grandChild.parent).toBe(child)
+    })
+
+    test('不能 adopt 已经 abort 的 controller，也不能 adopt 到已经 abort 的 controller 中', () => {
+        const aborted = ctrl.createController()
+        aborted.abort()
+        const target = ctrl.createController()
+
+        expect(() => { target.adopt(aborted) }).toThrow('aborted')
+
+        const orphan = createEffectController()
+        target.abort()
+        expect(() => { target.adopt(orphan) }).toThrow('aborted')
+        expect(orphan.parent).toBeNull()
+        orphan.abort()
+    })
+
+    test('adopt 之后 deadline 应该受新父 controller 约束', () => {
+        vitest.useFakeTimers()
+        const route = ctrl.createController({ timeoutMs: 100 })
+        const work = createEffectController()
+
+        route.adopt(work)
+        expect(work.deadline()).toBe(route.deadline())
+
+        vitest.advanceTimersByTime(100)
+        expect(work.aborted()).toBe(true)
+        vitest.useRealTimers()
+    })
+})
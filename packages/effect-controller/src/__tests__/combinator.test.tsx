@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+import { allOf, anyOf } from "../combinator";
+import { EffectCleanupError } from "../error";
+
+describe('多个父 context 的 controller', () => {
+    let route: EffectController
+    let dialog: EffectController
+
+    beforeEach(() => {
+        route = createEffectController({ debugLabel: 'route' })
+        dialog = createEffectController({ debugLabel: 'dialog' })
+    })
+
+    afterEach(() => {
+        route.abort()
+        dialog.abort()
+    })
+
+    test('anyOf: 任意一个父 context abort 时应该 abort，并继承其原因', () => {
+        const trace = vitest.fn()
+        const ctrl = anyOf([route, dialog])
+        ctrl.onAbort(trace)
+
+        dialog.abort('dialog closed')
+
+        expect(ctrl.aborted()).toBe(true)
+        expect(trace).toHaveBeenCalledWith('dialog closed')
+    })
+
+    test('anyOf: abort 之后应该从所有父 context 上注销', () => {
+        const ctrl = anyOf([route, dialog])
+        ctrl.abort()
+
+        expect(route.inspect().pendingCleanups).toBe(0)
+        expect(route.inspect().children).toEqual([])
+        expect(dialog.inspect().children).toEqual([])
+    })
+
+    test('anyOf: 应该与父 context 的普通子 controller 一样，先于父 context 自身的 cleanup abort', () => {
+        const trace: string[] = []
+        route.createController().onAbort(() => { trace.push('child') })
+        anyOf([route, dialog]).onAbort(() => { trace.push('anyOf') })
+        route.onAbort(() => { trace.push('route') })
+
+        route.abort()
+
+        expect(trace).toEqual(['anyOf', 'child', 'route'])
+    })
+
+    test('anyOf: 创建时已经有父 context abort，应该直接返回 aborted 的 controller', () => {
+        dialog.abort('closed')
+
+        const ctrl = anyOf([route, dialog])
+
+        expect(ctrl.aborted()).toBe(true)
+        expect(ctrl.reason()).toBe('closed')
+        expect(route.inspect().pendingCleanups).toBe(0)
+    })
+
+    test('allOf: 所有父 context 都 abort 后才应该 abort', () => {
+        const ctrl = allOf([route, dialog])
+
+        route.abort('route')
+        expect(ctrl.aborted()).toBe(false)
+
+        dialog.abort('dialog')
+        expect(ctrl.aborted()).toBe(true)
+        expect(ctrl.reason()).toBe('dialog')
+    })
+
+    test('allOf: 创建时已经 abort 的父 context 应该被计入', () => {
+        route.abort()
+
+        const ctrl = allOf([route, dialog])
+        expect(ctrl.aborted()).toBe(false)
+
+        dialog.abort()
+        expect(ctrl.aborted()).toBe(true)
+    })
+
+    test('allOf: 自身 abort 后应该从所有父 context 上注销', () => {
+        const ctrl = allOf([route, dialog])
+        ctrl.abort()
+
+        expect(route.inspect().children).toEqual([])
+        expect(dialog.inspect().children).toEqual([])
+    })
+
+    test('allOf: 最后一个父 context abort 时，应该先于它自身的 cleanup abort', () => {
+        const trace: string[] = []
+        allOf([route, dialog]).onAbort(() => { trace.push('allOf') })
+        dialog.onAbort(() => { trace.push('dialog') })
+
+        route.abort()
+        dialog.abort()
+
+        expect(trace).toEqual(['allOf', 'dialog'])
+    })
+
+    test('应该使用传入的 options 创建 controller', () => {
+        const onCreate = vitest.fn()
+        const handler = vitest.fn()
+
+        const ctrl = anyOf([route, dialog], { debugLabel: 'dialog-in-route', errorHandler: handler, hooks: { onCreate } })
+        ctrl.onAbort(() => { throw new Error('boom') })
+        route.abort()
+
+        expect(ctrl.debugLabel).toBe('dialog-in-route')
+        expect(onCreate).toHaveBeenCalledWith(ctrl)
+        expect(handler).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        expect(allOf([dialog], { debugLabel: 'all' }).debugLabel).toBe('all')
+    })
+})
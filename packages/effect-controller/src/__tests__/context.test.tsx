@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+import {
+    bindEffectContext,
+    createSyncContextStorage,
+    currentEffectContext,
+    requireEffectContext,
+    runInContext,
+    setEffectContextStorage,
+} from "../context";
+import { EffectContext } from "../types";
+
+describe('隐式的当前 context', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        setEffectContextStorage(createSyncContextStorage())
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('runInContext 的同步调用栈内应该能拿到当前 context', () => {
+        const trace = vitest.fn()
+
+        function registerDeepInCallChain() {
+            requireEffectContext().onAbort(trace)
+        }
+
+        runInContext(ctrl, registerDeepInCallChain)
+        ctrl.abort()
+
+        expect(trace).toHaveBeenCalledTimes(1)
+        expect(currentEffectContext()).toBeUndefined()
+    })
+
+    test('嵌套的 runInContext 结束后应该恢复外层 context', () => {
+        const child = ctrl.createController()
+
+        runInContext(ctrl, () => {
+            runInContext(child, () => {
+                expect(currentEffectContext()).toBe(child)
+            })
+            expect(currentEffectContext()).toBe(ctrl)
+        })
+    })
+
+    test('没有 context 时 requireEffectContext 应该抛错', () => {
+        expect(() => requireEffectContext()).toThrow('runInContext')
+    })
+
+    test('bindEffectContext 应该让回调重新进入捕获时的 context', async () => {
+        const callback = runInContext(ctrl, () => bindEffectContext(() => currentEffectContext()))
+
+        await Promise.resolve()
+
+        expect(callback()).toBe(ctrl)
+    })
+
+    test('使用 AsyncLocalStorage 时 context 应该跨越 await', async () => {
+        setEffectContextStorage(new AsyncLocalStorage<EffectContext>())
+
+        const ctx$ = runInContext(ctrl, async () => {
+            await Promise.resolve()
+            return currentEffectContext()
+        })
+
+        expect(await ctx$).toBe(ctrl)
+        expect(currentEffectContext()).toBeUndefined()
+    })
+})
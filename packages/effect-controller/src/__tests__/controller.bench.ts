@@ -0,0 +1,64 @@
+import { bench, describe } from "vitest";
+import { createEffectController, EffectController, EffectTransaction } from "../chore";
+
+const SIZE = 10_000
+
+describe('注册与移除 cleanup', () => {
+    bench(`注册 ${String(SIZE)} 个 cleanup 后 abort`, () => {
+        const ctrl = createEffectController()
+        for (let i = 0; i < SIZE; i++) {
+            ctrl.onAbort(() => void 0)
+        }
+        ctrl.abort()
+    })
+
+    bench(`注册 ${String(SIZE)} 个 cleanup 后按注册顺序移除`, () => {
+        const ctrl = createEffectController()
+        const removers: (() => void)[] = []
+        for (let i = 0; i < SIZE; i++) {
+            removers.push(ctrl.onAbort(() => void 0))
+        }
+        removers.forEach(remove => { remove() })
+        ctrl.abort()
+    })
+
+    bench(`通过 EffectTransaction.act 创建 ${String(SIZE)} 个 action 并移除 cleanup`, () => {
+        const ctrl = createEffectController()
+        const txn = new EffectTransaction(ctrl)
+        for (let i = 0; i < SIZE; i++) {
+            const { removeCleanup } = txn.act(() => i, () => void 0)
+            removeCleanup()
+        }
+        ctrl.abort()
+    })
+})
+
+describe('大规模 controller 树', () => {
+    function buildTree(root: EffectController, depth: number, width: number) {
+        if (depth === 0) {
+            return
+        }
+
+        for (let i = 0; i < width; i++) {
+            const child = root.createController()
+            child.onAbort(() => void 0)
+            buildTree(child, depth - 1, width)
+        }
+    }
+
+    bench('创建并 abort 一棵 4 层、每层 10 个子节点的树', () => {
+        const ctrl = createEffectController()
+        buildTree(ctrl, 4, 10)
+        ctrl.abort()
+    })
+
+    bench(`逐个 abort ${String(SIZE)} 个兄弟 controller`, () => {
+        const ctrl = createEffectController()
+        const children: EffectController[] = []
+        for (let i = 0; i < SIZE; i++) {
+            children.push(ctrl.createController())
+        }
+        children.forEach(child => { child.abort() })
+        ctrl.abort()
+    })
+})
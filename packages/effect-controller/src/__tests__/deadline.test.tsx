@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController, withDeadline, withTimeout } from "../chore";
+import { EffectCleanupError } from "../error";
+import { isAbortReason } from "../reason";
+
+describe('timeout 与 deadline', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        vitest.useFakeTimers()
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+        vitest.useRealTimers()
+    })
+
+    test('到时触发的 abort 中 cleanup 抛错时，应该上报错误而不是在 timer 中抛出', () => {
+        const consoleError = vitest.spyOn(console, 'error').mockImplementation(() => void 0)
+        const child = ctrl.createController({ timeoutMs: 100 })
+        child.onAbort(() => { throw new Error('boom') })
+
+        expect(() => { vitest.advanceTimersByTime(100) }).not.toThrow()
+        expect(child.aborted()).toBe(true)
+        expect(consoleError).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        consoleError.mockRestore()
+    })
+
+    test('超过 timeoutMs 后应该以 timeout 原因 abort', () => {
+        const trace = vitest.fn()
+        const child = ctrl.createController({ timeoutMs: 100 })
+        child.onAbort(trace)
+
+        vitest.advanceTimersByTime(99)
+        expect(child.aborted()).toBe(false)
+
+        vitest.advanceTimersByTime(1)
+        expect(child.aborted()).toBe(true)
+        expect(isAbortReason(child.reason(), 'timeout')).toBe(true)
+        expect(trace).toHaveBeenCalledWith(child.reason())
+    })
+
+    test('子 controller 的 deadline 应该不晚于父 controller', () => {
+        const parent = withTimeout(ctrl, 100)
+        const child = withTimeout(parent, 500)
+        const earlierChild = withDeadline(parent, Date.now() + 50)
+
+        expect(child.deadline()).toBe(parent.deadline())
+        expect(earlierChild.deadline()).toBe(Date.now() + 50)
+
+        vitest.advanceTimersByTime(50)
+        expect(earlierChild.aborted()).toBe(true)
+        expect(parent.aborted()).toBe(false)
+
+        vitest.advanceTimersByTime(50)
+        expect(child.aborted()).toBe(true)
+        expect(isAbortReason(child.reason(), 'timeout')).toBe(true)
+    })
+
+    test('abort 后应该清理 deadline 的 timer', () => {
+        const child = ctrl.createController({ timeoutMs: 100 })
+        expect(vitest.getTimerCount()).toBe(1)
+
+        child.abort()
+
+        expect(vitest.getTimerCount()).toBe(0)
+    })
+
+    test('deadline 已经过去时，创建出的 controller 应该直接 abort', () => {
+        const child = withDeadline(ctrl, Date.now() - 1)
+
+        expect(child.aborted()).toBe(true)
+        expect(ctrl.inspect().children).toHaveLength(0)
+    })
+
+    test('没有 deadline 时 deadline() 应该返回 undefined', () => {
+        expect(ctrl.createController().deadline()).toBeUndefined()
+    })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, test, vitest } from "vitest";
+import { createEffectController } from "../chore";
+import { isAbortReason } from "../reason";
+
+describe('Disposable 支持', () => {
+    test('using 离开作用域时应该以 disposed 原因 abort controller', () => {
+        const root = createEffectController()
+        const trace = vitest.fn()
+
+        {
+            using child = root.createController()
+            child.onAbort(trace)
+        }
+
+        expect(trace).toHaveBeenCalledTimes(1)
+        expect(isAbortReason(trace.mock.calls[0][0], 'disposed')).toBe(true)
+        root.abort()
+    })
+
+    test('await using 离开作用域时应该等待异步 cleanup', async () => {
+        const root = createEffectController()
+        const trace = vitest.fn()
+
+        {
+            await using child = root.createController()
+            child.onAbort(async () => {
+                await Promise.resolve()
+                trace('closed')
+            })
+        }
+
+        expect(trace).toHaveBeenCalledWith('closed')
+        root.abort()
+    })
+
+    test('use 应该返回 resource，并在 abort 时释放', () => {
+        const ctrl = createEffectController()
+        const dispose = vitest.fn()
+        const resource = { [Symbol.dispose]: dispose }
+
+        expect(ctrl.use(resource)).toBe(resource)
+        expect(ctrl.use(null)).toBeNull()
+
+        ctrl.abort()
+        expect(dispose).toHaveBeenCalledTimes(1)
+    })
+
+    test('use 应该支持 AsyncDisposable', async () => {
+        const ctrl = createEffectController()
+        const trace = vitest.fn()
+        ctrl.use({
+            [Symbol.asyncDispose]: async () => {
+                await Promise.resolve()
+                trace('disposed')
+            }
+        })
+
+        await ctrl.abortAsync()
+
+        expect(trace).toHaveBeenCalledWith('disposed')
+    })
+
+    test('use 应该支持 DisposableStack 风格的资源，并按 LIFO 顺序释放', () => {
+        const ctrl = createEffectController()
+        const trace = vitest.fn()
+
+        ctrl.use({ [Symbol.dispose]: () => { trace('first') } })
+        ctrl.use({ [Symbol.dispose]: () => { trace('second') } })
+        ctrl.abort()
+
+        expect(trace.mock.calls).toEqual([['second'], ['first']])
+    })
+})
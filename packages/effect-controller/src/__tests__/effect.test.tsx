@@ -1,5 +1,9 @@
 import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import process from "node:process";
 import { EffectController, createEffectController, createEffectSwitchWrapper, EffectTransaction } from "../chore";
+import { createAbortReason, isAbortReason } from "../reason";
+import { EffectCleanupError } from "../error";
+import type { EffectContext } from "../types";
 
 const delay = (time: number) => {
     return new Promise((resolve) => {
@@ -149,14 +153,458 @@ describe('EffectController 核心行为', () => {
         expect(() => ctrl.createController()).toThrow('abort')
     })
 
-    test('在 abort 过程中，不能新增 onAbort', () => {
+    test('cleanup 中移除其他尚未执行的 cleanup，被移除的 cleanup 不应该执行', () => {
+        const trace = vitest.fn()
+
+        const removeFirst = ctrl.onAbort(() => { trace('first') })
+        ctrl.onAbort(() => { trace('second') })
+        ctrl.onAbort(() => {
+            trace('third')
+            removeFirst()
+        })
+
+        ctrl.abort()
+
+        expect(trace.mock.calls).toEqual([['third'], ['second']])
+    })
+
+    test('在 abort 过程中新增的 onAbort 应该立即执行', () => {
         const trace = vitest.fn()
         ctrl.onAbort(() => {
             ctrl.onAbort(() => { trace('inner') })
+            trace('outer')
         })
 
-        expect(() => { ctrl.abort() }).toThrow()
-        expect(trace).not.toBeCalled()
+        expect(() => { ctrl.abort() }).not.toThrow()
+        expect(trace.mock.calls).toEqual([['inner'], ['outer']])
+    })
+
+    test('abort 之后注册的 onAbort 应该以 abort 原因立即执行', () => {
+        const trace = vitest.fn()
+        ctrl.abort('done')
+
+        const remove = ctrl.onAbort(trace)
+
+        expect(trace).toHaveBeenCalledWith('done')
+        expect(() => { remove() }).not.toThrow()
+    })
+})
+
+describe('strict 模式', () => {
+    test('abort 之后调用 onAbort 应该抛出带有 label 的错误', () => {
+        const ctrl = createEffectController({ debugLabel: 'room', strict: true })
+        ctrl.abort()
+
+        expect(() => ctrl.onAbort(() => void 0)).toThrow('onAbort called on aborted controller "room"')
+    })
+
+    test('abort 过程中调用 onAbort 应该抛错，且子 controller 继承 strict 配置', () => {
+        const trace = vitest.fn()
+        const ctrl = createEffectController({ strict: true, errorHandler: 'swallow' })
+        const childCtrl = ctrl.createController({ debugLabel: 'child' })
+        childCtrl.onAbort(() => {
+            try {
+                childCtrl.onAbort(() => { trace('inner') })
+            } catch (error) {
+                trace((error as Error).message)
+            }
+        })
+
+        ctrl.abort()
+
+        expect(trace).toHaveBeenCalledTimes(1)
+        expect(trace).toHaveBeenCalledWith('onAbort called on aborting controller "child"')
+    })
+})
+
+describe('cleanup 抛错时的 abort 行为', () => {
+    test('某个 cleanup 抛错时，其余 cleanup 和子 controller 仍然应该执行', () => {
+        const trace = vitest.fn()
+        const ctrl = createEffectController()
+
+        ctrl.createController().onAbort(() => { trace('child') })
+        ctrl.onAbort(() => { trace('first') })
+        ctrl.onAbort(() => { throw new Error('boom') })
+
+        expect(() => { ctrl.abort() }).toThrow(EffectCleanupError)
+        expect(trace).toHaveBeenCalledTimes(2)
+        expect(trace).nthCalledWith(1, 'child')
+        expect(trace).nthCalledWith(2, 'first')
+        expect(ctrl.aborted()).toBe(true)
+    })
+
+    test('汇总的错误应该记录出错的 controller label 和 cleanup', () => {
+        const ctrl = createEffectController({ debugLabel: 'root' })
+        const childCleanup = () => { throw new Error('child boom') }
+        ctrl.createController({ debugLabel: 'child' }).onAbort(childCleanup)
+        ctrl.onAbort(() => { throw new Error('root boom') })
+
+        let error: unknown
+        try {
+            ctrl.abort()
+        } catch (e) {
+            error = e
+        }
+
+        expect(error).toBeInstanceOf(EffectCleanupError)
+        const { failures, errors } = error as EffectCleanupError
+        expect(failures.map(failure => failure.label)).toEqual(['child', 'root'])
+        expect(failures[0].cleanup).toBe(childCleanup)
+        expect(errors).toHaveLength(2)
+    })
+
+    test('子 controller 应该使用根 controller 上配置的 errorHandler', () => {
+        const handler = vitest.fn()
+        const ctrl = createEffectController({ errorHandler: handler })
+        const childCtrl = ctrl.createController()
+        childCtrl.onAbort(() => { throw new Error('boom') })
+
+        expect(() => { childCtrl.abort() }).not.toThrow()
+        expect(handler).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        ctrl.abort()
+    })
+
+    test('swallow 模式下应该忽略 cleanup 的错误', () => {
+        const ctrl = createEffectController({ errorHandler: 'swallow' })
+        ctrl.onAbort(() => { throw new Error('boom') })
+
+        expect(() => { ctrl.abort() }).not.toThrow()
+        expect(ctrl.aborted()).toBe(true)
+    })
+
+    test('report 模式下应该通过 console.error 上报错误', () => {
+        const consoleError = vitest.spyOn(console, 'error').mockImplementation(() => void 0)
+        const ctrl = createEffectController({ errorHandler: 'report' })
+        ctrl.onAbort(() => { throw new Error('boom') })
+
+        ctrl.abort()
+
+        expect(consoleError).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        consoleError.mockRestore()
+    })
+
+    test('rethrow 模式下同步 abort 时异步 cleanup 的失败应该被上报，而不是变成 unhandled rejection', async () => {
+        const consoleError = vitest.spyOn(console, 'error').mockImplementation(() => void 0)
+        const unhandled = vitest.fn()
+        process.on('unhandledRejection', unhandled)
+
+        const ctrl = createEffectController()
+        ctrl.onAbort(() => Promise.reject(new Error('boom')))
+
+        expect(() => { ctrl.abort() }).not.toThrow()
+        await delay(0)
+
+        expect(unhandled).not.toBeCalled()
+        expect(consoleError).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        process.off('unhandledRejection', unhandled)
+        consoleError.mockRestore()
+    })
+})
+
+describe('abortAsync', () => {
+    test('应该保持子 controller 优先、后注册先执行的顺序，并等待每个异步 cleanup', async () => {
+        const trace = vitest.fn()
+        const ctrl = createEffectController()
+
+        ctrl.createController().onAbort(async () => {
+            await delay(10)
+            trace('child')
+        })
+        ctrl.onAbort(() => { trace('first') })
+        ctrl.onAbort(async () => {
+            await delay(10)
+            trace('second')
+        })
+
+        const report = await ctrl.abortAsync()
+
+        expect(trace.mock.calls.map(call => call[0] as string)).toEqual(['child', 'second', 'first'])
+        expect(report.failed).toHaveLength(0)
+        expect(report.timedOut).toHaveLength(0)
+        expect(ctrl.aborted()).toBe(true)
+    })
+
+    test('报告中应该包含失败的 cleanup', async () => {
+        const ctrl = createEffectController({ debugLabel: 'socket' })
+        const cleanup = () => Promise.reject(new Error('close failed'))
+        ctrl.onAbort(cleanup)
+
+        const report = await ctrl.abortAsync()
+
+        expect(report.failed).toHaveLength(1)
+        expect(report.failed[0]).toMatchObject({ label: 'socket', cleanup })
+    })
+
+    test('超时后不再等待，剩余的 cleanup 依然会被调用', async () => {
+        vitest.useFakeTimers()
+        const trace = vitest.fn()
+        const ctrl = createEffectController()
+
+        ctrl.onAbort(() => { trace('sync') })
+        ctrl.onAbort(() => new Promise<void>(() => void 0))
+
+        const report$ = ctrl.abortAsync(undefined, { timeoutMs: 100 })
+        await vitest.advanceTimersByTimeAsync(100)
+        const report = await report$
+
+        expect(report.timedOut).toHaveLength(1)
+        expect(trace).toHaveBeenCalledWith('sync')
+        vitest.useRealTimers()
+    })
+
+    test('超过 deadline 之后返回 Promise 的 cleanup 应该记为超时，即使它已经 resolve', async () => {
+        const ctrl = createEffectController()
+        ctrl.onAbort(() => Promise.resolve())
+
+        const report = await ctrl.abortAsync(undefined, { timeoutMs: 0 })
+
+        expect(report.timedOut).toHaveLength(1)
+        expect(report.completed).toHaveLength(0)
+    })
+
+    test('等待异步 cleanup 期间 signal 应该已经触发', async () => {
+        const ctrl = createEffectController()
+        const child = ctrl.createController()
+        const signalAborted = vitest.fn()
+        child.onAbort(async () => {
+            await delay(10)
+            signalAborted(ctrl.signal.aborted, child.signal.aborted)
+        })
+
+        await ctrl.abortAsync()
+
+        expect(signalAborted).toHaveBeenCalledWith(true, true)
+    })
+})
+
+describe('EffectContext 的 signal', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('signal 应该在 controller abort 时触发', () => {
+        const trace = vitest.fn()
+        const signal = ctrl.signal
+        signal.addEventListener('abort', trace)
+
+        expect(signal.aborted).toBe(false)
+
+        ctrl.abort()
+
+        expect(signal.aborted).toBe(true)
+        expect(trace).toHaveBeenCalledTimes(1)
+    })
+
+    test('多次访问 signal 应该返回同一个实例', () => {
+        expect(ctrl.signal).toBe(ctrl.signal)
+    })
+
+    test('父 controller abort 时，子 controller 的 signal 也应该触发', () => {
+        const childSignal = ctrl.createController().createController().signal
+
+        ctrl.abort()
+
+        expect(childSignal.aborted).toBe(true)
+    })
+
+    test('在 abort 之后才访问 signal，应该得到一个已经 aborted 的 signal', () => {
+        ctrl.abort()
+
+        expect(ctrl.signal.aborted).toBe(true)
+    })
+
+    test('actAsync 中被 signal 取消的请求应该返回 aborted', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const ret$ = txn.actAsync((actionContext) => {
+            return new Promise((_, reject) => {
+                actionContext.signal.addEventListener('abort', () => {
+                    reject(new DOMException('aborted', 'AbortError'))
+                })
+            })
+        })
+
+        ctrl.abort()
+
+        expect((await ret$).aborted).toBe(true)
+    })
+
+    test('actAsync 结束后，action context 应该以 disposed 原因被释放', async () => {
+        const txn = new EffectTransaction(ctrl)
+        let actionContext: EffectContext | undefined
+        const cleanup = vitest.fn()
+
+        await txn.actAsync((context) => {
+            actionContext = context
+            context.onAbort(cleanup)
+            return Promise.resolve(1)
+        })
+
+        expect(actionContext?.signal.aborted).toBe(true)
+        expect(isAbortReason(actionContext?.reason(), 'disposed')).toBe(true)
+        expect(cleanup).toBeCalledTimes(1)
+        expect(ctrl.aborted()).toBe(false)
+        expect(ctrl.inspect().children).toHaveLength(0)
+    })
+
+    test('actAsync 和 race 的 callback 同步抛错时，应该返回 failed 并释放 action context', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const error = new Error('sync')
+        const throwSync = () => { throw error }
+
+        expect(await txn.actAsync(throwSync)).toMatchObject({ status: 'failed', error })
+        expect(await txn.race(throwSync)).toMatchObject({ status: 'failed', error })
+        expect(ctrl.inspect().children).toHaveLength(0)
+    })
+})
+
+describe('abort 原因', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('abort 时传入的原因应该可以通过 reason() 读取', () => {
+        const reason = createAbortReason('disposed')
+
+        expect(ctrl.reason()).toBeUndefined()
+
+        ctrl.abort(reason)
+
+        expect(ctrl.reason()).toBe(reason)
+        expect(ctrl.signal.reason).toBe(reason)
+    })
+
+    test('onAbort 的回调应该收到 abort 原因', () => {
+        const trace = vitest.fn()
+        ctrl.onAbort(trace)
+
+        ctrl.abort('user cancel')
+
+        expect(trace).toHaveBeenCalledWith('user cancel')
+    })
+
+    test('子 controller 应该继承父 controller 的 abort 原因', () => {
+        const trace = vitest.fn()
+        const childCtrl = ctrl.createController()
+        childCtrl.onAbort(trace)
+
+        const reason = createAbortReason('navigation')
+        ctrl.abort(reason)
+
+        expect(childCtrl.reason()).toBe(reason)
+        expect(trace).toHaveBeenCalledWith(reason)
+    })
+
+    test('switch wrapper 切换时，上一个 controller 应该以 superseded 原因 abort', () => {
+        const trace = vitest.fn()
+        const fn = createEffectSwitchWrapper(ctrl)((ctx) => {
+            ctx.onAbort(trace)
+        })
+
+        fn()
+        fn()
+
+        expect(isAbortReason(trace.mock.calls[0][0], 'superseded')).toBe(true)
+    })
+
+    test('switch wrapper 可以指定切换时的 abort 原因', () => {
+        const trace = vitest.fn()
+        const fn = createEffectSwitchWrapper(ctrl, { switchReason: 'navigation' })((ctx) => {
+            ctx.onAbort(trace)
+        })
+
+        fn()
+        fn()
+
+        expect(isAbortReason(trace.mock.calls[0][0], 'navigation')).toBe(true)
+    })
+
+    test('外部 signal 的 abort 原因应该传递给 controller', () => {
+        const external = new AbortController()
+        const linked = createEffectController({ signal: external.signal })
+
+        external.abort('router cancel')
+
+        expect(linked.reason()).toBe('router cancel')
+    })
+})
+
+describe('绑定外部 AbortSignal', () => {
+    test('外部 signal 触发时 controller 应该被 abort', () => {
+        const external = new AbortController()
+        const trace = vitest.fn()
+
+        const ctrl = createEffectController({ signal: external.signal })
+        ctrl.onAbort(trace)
+
+        external.abort()
+
+        expect(ctrl.aborted()).toBe(true)
+        expect(trace).toHaveBeenCalledTimes(1)
+    })
+
+    test('任意一个外部 signal 触发都应该 abort controller', () => {
+        const first = new AbortController()
+        const second = new AbortController()
+
+        const ctrl = createEffectController({ signal: [first.signal, second.signal] })
+        second.abort()
+
+        expect(ctrl.aborted()).toBe(true)
+    })
+
+    test('外部 signal 已经 aborted 时，创建出的 controller 应该直接是 aborted 状态', () => {
+        const root = createEffectController()
+        const child = root.createController({ signal: AbortSignal.abort() })
+
+        expect(child.aborted()).toBe(true)
+        expect(() => { root.abort() }).not.toThrow()
+    })
+
+    test('controller 自身 abort 后应该移除外部 signal 上的监听', () => {
+        const external = new AbortController()
+        const removeEventListener = vitest.spyOn(external.signal, 'removeEventListener')
+
+        const ctrl = createEffectController({ signal: external.signal })
+        ctrl.abort()
+
+        expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function))
+    })
+
+    test('外部 signal 触发的 abort 中 cleanup 抛错时，应该上报错误而不是在事件监听中抛出', () => {
+        const consoleError = vitest.spyOn(console, 'error').mockImplementation(() => void 0)
+        const external = new AbortController()
+
+        const ctrl = createEffectController({ signal: external.signal })
+        ctrl.onAbort(() => { throw new Error('boom') })
+        external.abort()
+
+        expect(ctrl.aborted()).toBe(true)
+        expect(consoleError).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        consoleError.mockRestore()
+    })
+
+    test('linkSignal 返回的函数可以解除绑定', () => {
+        const external = new AbortController()
+        const ctrl = createEffectController()
+
+        const unlink = ctrl.linkSignal(external.signal)
+        unlink()
+        external.abort()
+
+        expect(ctrl.aborted()).toBe(false)
+        ctrl.abort()
     })
 })
 
@@ -236,6 +684,209 @@ describe('测试 EffectTransaction', () => {
         expect(trace).not.toBeCalled()
         vitest.useRealTimers()
     })
+
+    test('actAsync 的 cleanup 应该拿到 resolve 的值，并在 context abort 时执行', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const cleanup = vitest.fn()
+
+        const ret = await txn.actAsync(() => Promise.resolve(42), cleanup)
+
+        expect(ret).toMatchObject({ status: 'ok', value: 42 })
+        expect(cleanup).not.toBeCalled()
+
+        ctrl.abort()
+
+        expect(cleanup).toBeCalledTimes(1)
+        expect(cleanup).toBeCalledWith(42)
+    })
+
+    test('actAsync resolve 之前 context 已经 abort，值到达后应该立即交给 cleanup', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const cleanup = vitest.fn()
+        let resolveValue: (value: number) => void = () => void 0
+
+        const ret$ = txn.actAsync(() => new Promise<number>((resolve) => {
+            resolveValue = resolve
+        }), cleanup)
+
+        ctrl.abort()
+        expect(cleanup).not.toBeCalled()
+
+        resolveValue(42)
+        const ret = await ret$
+
+        expect(ret).toMatchObject({ status: 'aborted', value: 42 })
+        expect(cleanup).toBeCalledTimes(1)
+        expect(cleanup).toBeCalledWith(42)
+    })
+
+    test('actAsync 成功后调用 removeCleanup，context abort 时不再执行 cleanup', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const cleanup = vitest.fn()
+
+        const { removeCleanup } = await txn.actAsync(() => Promise.resolve(42), cleanup)
+        removeCleanup()
+        ctrl.abort()
+
+        expect(cleanup).not.toBeCalled()
+    })
+
+    test('action context 或迟到的值的 cleanup 抛错时，actAsync 依然应该返回 ActionResult', async () => {
+        const consoleError = vitest.spyOn(console, 'error').mockImplementation(() => void 0)
+        const txn = new EffectTransaction(ctrl)
+        const throwing = () => { throw new Error('boom') }
+
+        const ok = await txn.actAsync((actionContext) => {
+            actionContext.onAbort(throwing)
+            return Promise.resolve(1)
+        })
+        expect(ok.status).toBe('ok')
+
+        let resolveValue: (value: number) => void = () => void 0
+        const late$ = txn.actAsync(() => new Promise<number>((resolve) => {
+            resolveValue = resolve
+        }), throwing)
+        ctrl.abort()
+        resolveValue(2)
+
+        expect(await late$).toMatchObject({ status: 'aborted', value: 2 })
+        expect(consoleError).toHaveBeenCalledTimes(2)
+        expect(consoleError).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        consoleError.mockRestore()
+    })
+
+    test('actAsync reject 时应该返回 failed，默认释放 action context', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const inFlightCleanup = vitest.fn()
+        const cleanup = vitest.fn()
+        const error = new Error('failed')
+
+        const ret = await txn.actAsync((actionContext) => {
+            actionContext.onAbort(inFlightCleanup)
+            return Promise.reject(error)
+        }, cleanup)
+
+        expect(ret).toMatchObject({ status: 'failed', aborted: false, error })
+        expect(inFlightCleanup).toBeCalledTimes(1)
+
+        ctrl.abort()
+
+        expect(inFlightCleanup).toBeCalledTimes(1)
+        expect(cleanup).not.toBeCalled()
+    })
+
+    test('actAsync 的 onFailure 为 keep 时，action context 应该保留到 context abort', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const inFlightCleanup = vitest.fn()
+
+        const ret = await txn.actAsync((actionContext) => {
+            actionContext.onAbort(inFlightCleanup)
+            return Promise.reject(new Error('failed'))
+        }, undefined, { onFailure: 'keep' })
+
+        expect(ret.status).toBe('failed')
+        expect(inFlightCleanup).not.toBeCalled()
+
+        ctrl.abort()
+
+        expect(inFlightCleanup).toBeCalledTimes(1)
+    })
+
+    test('race 在 context abort 时应该立即返回 aborted，不等待 promise', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const ret$ = txn.race(() => new Promise<number>(() => void 0))
+
+        ctrl.abort()
+
+        expect((await ret$).aborted).toBe(true)
+    })
+
+    test('race 中迟到的值应该交给 cleanup 释放', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const cleanup = vitest.fn()
+        let resolveValue: (value: number) => void = () => void 0
+
+        const ret = txn.race(() => new Promise<number>((resolve) => {
+            resolveValue = resolve
+        }), cleanup)
+
+        ctrl.abort()
+        await ret
+        expect(cleanup).not.toBeCalled()
+
+        resolveValue(42)
+        await delay(0)
+
+        expect(cleanup).toBeCalledTimes(1)
+        expect(cleanup).toBeCalledWith(42)
+    })
+
+    test('race 中处理迟到的值的 cleanup 抛错时，应该交给 errorHandler 而不是变成 unhandled rejection', async () => {
+        const handler = vitest.fn()
+        const reported = createEffectController({ errorHandler: handler })
+        const txn = new EffectTransaction(reported)
+        let resolveValue: (value: number) => void = () => void 0
+
+        const ret$ = txn.race(() => new Promise<number>((resolve) => {
+            resolveValue = resolve
+        }), () => { throw new Error('late') })
+
+        reported.abort()
+        await ret$
+        resolveValue(42)
+        await delay(0)
+
+        expect(handler).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+    })
+
+    test('race 返回 aborted 之后调用 removeCleanup，迟到的值不再交给 cleanup', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const cleanup = vitest.fn()
+        let resolveValue: (value: number) => void = () => void 0
+
+        const ret$ = txn.race(() => new Promise<number>((resolve) => {
+            resolveValue = resolve
+        }), cleanup)
+
+        ctrl.abort()
+        const { removeCleanup } = await ret$
+        removeCleanup()
+
+        resolveValue(42)
+        await delay(0)
+
+        expect(cleanup).not.toBeCalled()
+    })
+
+    test('race 正常 resolve 时，cleanup 应该在 context abort 时拿到返回值', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const cleanup = vitest.fn()
+
+        const ret = await txn.race(() => Promise.resolve(1), cleanup)
+
+        expect(ret).toMatchObject({ status: 'ok', aborted: false, value: 1 })
+        expect(cleanup).not.toBeCalled()
+
+        ctrl.abort()
+
+        expect(cleanup).toBeCalledWith(1)
+    })
+
+    test('race 中 promise 在 abort 之前 reject 时应该返回 failed，abort 之后的 reject 应该被忽略', async () => {
+        const txn = new EffectTransaction(ctrl)
+        const error = new Error('failed')
+
+        expect(await txn.race(() => Promise.reject(error))).toMatchObject({ status: 'failed', error })
+
+        const ret$ = txn.race((actionContext) => new Promise((_, reject) => {
+            actionContext.signal.addEventListener('abort', () => {
+                reject(new DOMException('aborted', 'AbortError'))
+            })
+        }))
+        ctrl.abort()
+
+        expect((await ret$).aborted).toBe(true)
+    })
 })
 
 describe('测试 SwitchContext', () => {
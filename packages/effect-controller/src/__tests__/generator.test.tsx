@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+import { EffectCleanupError } from "../error";
+import { runEffect } from "../generator";
+import { isAbortReason } from "../reason";
+import type { EffectContext, EffectGenerator } from "../types";
+
+const delay = (time: number) => new Promise(resolve => setTimeout(resolve, time))
+
+describe('runEffect', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('应该等待 yield 的 promise，并把结果作为 yield 表达式的值', async () => {
+        const ret = await runEffect(ctrl, function* () {
+            const a = (yield Promise.resolve(1)) as number
+            const b = (yield 2) as number
+            return a + b
+        })
+
+        expect(ret).toMatchObject({ status: 'ok', aborted: false, value: 3 })
+    })
+
+    test('context 被 abort 时应该不再恢复执行，并执行 finally', async () => {
+        const trace = vitest.fn()
+
+        const ret$ = runEffect(ctrl, function* () {
+            try {
+                yield delay(10)
+                trace('resumed')
+            } finally {
+                trace('finally')
+            }
+        })
+
+        ctrl.abort()
+
+        expect(trace.mock.calls).toEqual([['finally']])
+        expect(await ret$).toMatchObject({ status: 'aborted', aborted: true })
+
+        await delay(20)
+        expect(trace).toHaveBeenCalledTimes(1)
+    })
+
+    test('generator 执行中同步 abort 时，应该在这一步结束后执行 finally', async () => {
+        const trace = vitest.fn()
+
+        const ret$ = runEffect(ctrl, function* () {
+            try {
+                yield Promise.resolve()
+                ctrl.abort()
+                trace('after abort')
+                yield delay(10)
+                trace('resumed')
+            } finally {
+                trace('finally')
+            }
+        })
+
+        expect(await ret$).toMatchObject({ status: 'aborted', aborted: true })
+        await delay(0)
+        expect(trace.mock.calls).toEqual([['after abort'], ['finally']])
+    })
+
+    test('finally 中的 yield 不会被驱动，generator 依然应该被结束', async () => {
+        const trace = vitest.fn()
+
+        const ret$ = runEffect(ctrl, function* () {
+            try {
+                yield delay(10)
+            } finally {
+                trace('finally')
+                yield delay(10)
+                trace('after yield')
+            }
+        })
+        ctrl.abort()
+
+        expect((await ret$).status).toBe('aborted')
+        await delay(20)
+        expect(trace.mock.calls).toEqual([['finally']])
+    })
+
+    test('finally 中循环 yield 时，应该在尝试一定次数后放弃并报告错误', async () => {
+        const ret$ = runEffect(ctrl, function* () {
+            try {
+                yield delay(10)
+            } finally {
+                for (;;) {
+                    try {
+                        yield
+                    } finally {
+                        // eslint-disable-next-line no-unsafe-finally
+                        continue
+                    }
+                }
+            }
+        })
+
+        expect(() => { ctrl.abort() }).toThrowError(EffectCleanupError)
+        expect((await ret$).status).toBe('aborted')
+    })
+
+    test('yield 的 promise reject 时应该抛回 generator 中', async () => {
+        const error = new Error('failed')
+
+        const ret = await runEffect(ctrl, function* () {
+            try {
+                yield Promise.reject(error)
+            } catch (e) {
+                return e
+            }
+        })
+
+        expect(ret).toMatchObject({ status: 'ok', value: error })
+    })
+
+    test('generator 抛出的错误应该得到 failed 结果', async () => {
+        const error = new Error('failed')
+
+        const ret = await runEffect(ctrl, function* () {
+            yield Promise.resolve()
+            throw error
+        })
+
+        expect(ret).toMatchObject({ status: 'failed', aborted: false, error })
+    })
+
+    test('应该支持嵌套的 generator，abort 时从内到外执行 finally', async () => {
+        const trace = vitest.fn()
+
+        function* fetchUser(): EffectGenerator<string> {
+            try {
+                yield delay(10)
+                return 'octocat'
+            } finally {
+                trace('inner')
+            }
+        }
+
+        const ret = await runEffect(ctrl, function* () {
+            const name = (yield fetchUser()) as string
+            return name.toUpperCase()
+        })
+        expect(ret).toMatchObject({ status: 'ok', value: 'OCTOCAT' })
+
+        trace.mockClear()
+        const ret$ = runEffect(ctrl, function* () {
+            try {
+                yield fetchUser()
+            } finally {
+                trace('outer')
+            }
+        })
+        ctrl.abort()
+
+        expect(trace.mock.calls).toEqual([['inner'], ['outer']])
+        expect((await ret$).status).toBe('aborted')
+    })
+
+    test('内层 generator 的错误应该可以在外层捕获', async () => {
+        function* failing(): EffectGenerator<never> {
+            yield Promise.resolve()
+            throw new Error('inner')
+        }
+
+        const ret = await runEffect(ctrl, function* () {
+            try {
+                yield failing()
+                return 'unreachable'
+            } catch (e) {
+                return (e as Error).message
+            }
+        })
+
+        expect(ret).toMatchObject({ status: 'ok', value: 'inner' })
+    })
+
+    test('generator 收到的 ctx 应该在结束后以 disposed 原因被释放', async () => {
+        let effectContext: EffectContext | undefined
+
+        await runEffect(ctrl, function* (ctx) {
+            effectContext = ctx
+            yield Promise.resolve()
+        })
+
+        expect(isAbortReason(effectContext?.reason(), 'disposed')).toBe(true)
+        expect(ctrl.aborted()).toBe(false)
+        expect(ctrl.inspect().children).toHaveLength(0)
+    })
+
+    test('context 已经 abort 时不应该开始执行', async () => {
+        const effect = vitest.fn()
+        ctrl.abort()
+
+        const ret = await runEffect(ctrl, effect)
+
+        expect(effect).not.toBeCalled()
+        expect(ret.status).toBe('aborted')
+    })
+
+    test('ctx 上的 cleanup 抛错时依然应该得到结果，错误只上报', async () => {
+        const spy = vitest.spyOn(console, 'error').mockImplementation(() => void 0)
+
+        const ret = await runEffect(ctrl, function* (ctx) {
+            ctx.onAbort(() => { throw new Error('boom') })
+            yield Promise.resolve()
+            return 1
+        })
+
+        expect(ret).toMatchObject({ status: 'ok', value: 1 })
+        expect(spy).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        spy.mockRestore()
+    })
+})
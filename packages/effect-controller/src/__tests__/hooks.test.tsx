@@ -0,0 +1,157 @@
+import { describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+import { EffectCleanupError } from "../error";
+import { composeHooks, createConsoleLogger, getLabelPath } from "../logger";
+import { EffectControllerHooks } from "../types";
+
+function createTraceHooks(trace: (...args: unknown[]) => void): EffectControllerHooks {
+    return {
+        onCreate: (ctrl) => { trace('create', ctrl.debugLabel) },
+        onAbortStart: (ctrl, reason) => { trace('abortStart', ctrl.debugLabel, reason) },
+        onCleanupRun: (ctrl) => { trace('cleanupRun', ctrl.debugLabel) },
+        onCleanupRemoved: (ctrl) => { trace('cleanupRemoved', ctrl.debugLabel) },
+        onAbortEnd: (ctrl) => { trace('abortEnd', ctrl.debugLabel) },
+        onError: (ctrl, failure) => { trace('error', ctrl.debugLabel, failure.error) },
+    }
+}
+
+describe('EffectController hooks', () => {
+    test('应该按生命周期顺序触发 hooks', () => {
+        const trace = vitest.fn()
+        const ctrl = createEffectController({ debugLabel: 'root', hooks: createTraceHooks(trace) })
+
+        ctrl.onAbort(() => void 0)
+        const remove = ctrl.onAbort(() => void 0)
+        remove()
+        ctrl.abort('reason')
+
+        expect(trace.mock.calls).toEqual([
+            ['create', 'root'],
+            ['cleanupRemoved', 'root'],
+            ['abortStart', 'root', 'reason'],
+            ['cleanupRun', 'root'],
+            ['abortEnd', 'root'],
+        ])
+    })
+
+    test('子 controller 应该继承父 controller 的 hooks', () => {
+        const trace = vitest.fn()
+        const ctrl = createEffectController({ debugLabel: 'root', hooks: createTraceHooks(trace) })
+
+        ctrl.createController({ debugLabel: 'child' })
+
+        expect(trace).toHaveBeenLastCalledWith('create', 'child')
+        ctrl.abort()
+    })
+
+    test('显式传入 undefined 时子 controller 依然应该继承 hooks 和 errorHandler', () => {
+        const trace = vitest.fn()
+        const handler = vitest.fn()
+        const ctrl = createEffectController({ hooks: createTraceHooks(trace), errorHandler: handler })
+
+        const child = ctrl.createController({ debugLabel: 'child', hooks: undefined, errorHandler: undefined })
+        child.onAbort(() => { throw new Error('boom') })
+        child.abort()
+
+        expect(trace).toHaveBeenCalledWith('create', 'child')
+        expect(handler).toHaveBeenCalledWith(expect.any(EffectCleanupError))
+        ctrl.abort()
+    })
+
+    test('cleanup 抛错时应该触发 onError', () => {
+        const trace = vitest.fn()
+        const error = new Error('boom')
+        const ctrl = createEffectController({ hooks: createTraceHooks(trace), errorHandler: 'swallow' })
+        ctrl.onAbort(() => { throw error })
+
+        ctrl.abort()
+
+        expect(trace).toHaveBeenCalledWith('error', undefined, error)
+    })
+
+    test('onCreate 应该在关联 signal、设置 deadline 之后触发', () => {
+        const onCreate = vitest.fn((ctrl: EffectController) => ({ deadline: ctrl.deadline(), aborted: ctrl.aborted() }))
+        const abortController = new AbortController()
+        abortController.abort('gone')
+
+        const ctrl = createEffectController({ hooks: { onCreate }, timeoutMs: 1000 })
+        ctrl.createController({ signal: abortController.signal })
+
+        expect(onCreate.mock.results.map(result => result.value as unknown)).toEqual([
+            { deadline: ctrl.createdAt + 1000, aborted: false },
+            { deadline: ctrl.createdAt + 1000, aborted: true },
+        ])
+        ctrl.abort()
+    })
+
+    test('onCleanupRun 抛错时应该作为 cleanup 的失败处理，并完成 abort', async () => {
+        const cleanup = vitest.fn()
+        const hooks: EffectControllerHooks = {
+            onCleanupRun: () => { throw new Error('hook') },
+        }
+
+        const ctrl = createEffectController({ hooks })
+        ctrl.onAbort(cleanup)
+        expect(() => { ctrl.abort() }).toThrowError(EffectCleanupError)
+        expect(ctrl.signal.aborted).toBe(true)
+
+        const asyncCtrl = createEffectController({ hooks })
+        asyncCtrl.onAbort(cleanup)
+        const report = await asyncCtrl.abortAsync()
+        expect(report.failed).toHaveLength(1)
+        expect(asyncCtrl.signal.aborted).toBe(true)
+    })
+
+    test.each(['onAbortStart', 'onAbortEnd', 'onError'] as const)('%s 抛错时应该交给 errorHandler，并完成整棵树的 abort', (hook) => {
+        const trace = vitest.fn()
+        const root = createEffectController({ debugLabel: 'root', errorHandler: 'swallow' })
+        const failing = root.createController({
+            debugLabel: 'failing',
+            hooks: { [hook]: () => { throw new Error('hook') } },
+        })
+        failing.onAbort(() => { throw new Error('cleanup') })
+        root.createController({ debugLabel: 'sibling' }).onAbort(() => { trace('sibling') })
+        root.onAbort(() => { trace('root') })
+
+        expect(() => { root.abort() }).not.toThrow()
+        expect(trace.mock.calls).toEqual([['sibling'], ['root']])
+        expect(failing.signal.aborted).toBe(true)
+        expect(root.signal.aborted).toBe(true)
+    })
+
+    test('hook 抛出的错误应该带上 hook 的名字', async () => {
+        const error = new Error('hook')
+        const ctrl = createEffectController({ hooks: { onAbortEnd: () => { throw error } } })
+
+        const report = await ctrl.abortAsync()
+
+        expect(report.failed).toEqual([{ label: undefined, cleanup: undefined, hook: 'onAbortEnd', error }])
+        expect(ctrl.signal.aborted).toBe(true)
+    })
+
+    test('composeHooks 应该依次调用每一组 hooks', () => {
+        const first = vitest.fn()
+        const second = vitest.fn()
+
+        const ctrl = createEffectController({ hooks: composeHooks(createTraceHooks(first), createTraceHooks(second)) })
+        ctrl.abort()
+
+        expect(first).toHaveBeenCalledWith('abortEnd', undefined)
+        expect(second).toHaveBeenCalledWith('abortEnd', undefined)
+    })
+})
+
+describe('console logger', () => {
+    test('应该输出带有 label 路径的日志', () => {
+        const output = { log: vitest.fn(), error: vitest.fn() }
+        const ctrl = createEffectController({ debugLabel: 'root', hooks: createConsoleLogger({ console: output }) })
+        const child = ctrl.createController({ debugLabel: 'route' })
+
+        child.abort()
+
+        expect(getLabelPath(child)).toBe('root/route')
+        expect(output.log).toHaveBeenCalledWith('[CREATE] root/route')
+        expect(output.log).toHaveBeenCalledWith('[ABORTED] root/route')
+        ctrl.abort()
+    })
+})
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createEffectController, createEffectSwitchWrapper, EffectController } from "../chore";
+import { diffSnapshots, flattenSnapshot } from "../inspect";
+
+describe('controller 树快照', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController({ debugLabel: 'root' })
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('快照应该包含存活的子 controller 和未执行的 cleanup 数量', () => {
+        const child = ctrl.createController({ debugLabel: 'child' })
+        child.onAbort(() => void 0)
+        child.onAbort(() => void 0)
+
+        const snapshot = ctrl.inspect()
+
+        expect(snapshot).toMatchObject({
+            id: ctrl.id,
+            label: 'root',
+            aborted: false,
+            pendingCleanups: 0,
+            children: [{ id: child.id, label: 'child', pendingCleanups: 2, children: [] }],
+        })
+        expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot)
+    })
+
+    test('已经 abort 的子 controller 不应该出现在快照中', () => {
+        ctrl.createController().abort()
+
+        expect(ctrl.inspect().children).toHaveLength(0)
+    })
+
+    test('打平后的快照应该带有 label 路径', () => {
+        ctrl.createController({ debugLabel: 'route' }).createController()
+
+        expect(flattenSnapshot(ctrl.inspect()).map(node => node.path)).toEqual([
+            'root',
+            'root/route',
+            'root/route/<anonymous>',
+        ])
+    })
+
+    test('diff 应该能找出路由切换后新增、移除和残留的 controller', () => {
+        const switchRoute = createEffectSwitchWrapper<() => EffectController>(ctrl, { debugLabel: 'route' })((ctx) => ctx as EffectController)
+
+        const firstRoute = switchRoute()
+        const leaked = ctrl.createController({ debugLabel: 'leaked' })
+        const before = ctrl.inspect()
+
+        const secondRoute = switchRoute()
+        leaked.onAbort(() => void 0)
+        const after = ctrl.inspect()
+
+        const diff = diffSnapshots(before, after)
+        expect(diff.added.map(node => node.id)).toEqual([secondRoute.id])
+        expect(diff.removed.map(node => node.id)).toEqual([firstRoute.id])
+        expect(diff.changed).toHaveLength(1)
+        expect(diff.changed[0].after).toMatchObject({ path: 'root/leaked', pendingCleanups: 1 })
+    })
+})
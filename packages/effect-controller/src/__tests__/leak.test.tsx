@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+import { anyOf } from "../combinator";
+import { createLeakDetector, LeakDetector } from "../leak";
+
+describe('泄漏检测', () => {
+    let detector: LeakDetector
+    let ctrl: EffectController
+    const onLeak = vitest.fn()
+
+    beforeEach(() => {
+        vitest.useFakeTimers()
+        onLeak.mockReset()
+        detector = createLeakDetector({ thresholdMs: 1000, onLeak })
+        ctrl = createEffectController({ debugLabel: 'root', hooks: detector.hooks })
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+        vitest.useRealTimers()
+        vitest.unstubAllGlobals()
+    })
+
+    test('超过阈值且仍有 cleanup 的 controller 应该被报告', () => {
+        const child = ctrl.createController({ debugLabel: 'subscription' })
+        child.onAbort(() => void 0)
+
+        expect(detector.check()).toHaveLength(0)
+
+        vitest.advanceTimersByTime(1000)
+        const reports = detector.check()
+
+        expect(reports).toHaveLength(1)
+        expect(reports[0]).toMatchObject({
+            kind: 'stale',
+            id: child.id,
+            labelPath: 'root/subscription',
+            pendingCleanups: 1,
+        })
+        expect(reports[0].stack).toContain('leak.test.tsx')
+        expect(onLeak).toHaveBeenCalledWith(reports[0])
+    })
+
+    test('同一个 controller 只应该被报告一次', () => {
+        ctrl.createController().onAbort(() => void 0)
+
+        vitest.advanceTimersByTime(1000)
+        expect(detector.check()).toHaveLength(1)
+
+        vitest.advanceTimersByTime(1000)
+        expect(detector.check()).toHaveLength(0)
+        expect(onLeak).toHaveBeenCalledTimes(1)
+    })
+
+    test('ignore 返回 true 的 controller 不应该被报告', () => {
+        const longLivedDetector = createLeakDetector({
+            thresholdMs: 1000,
+            onLeak,
+            ignore: (controller) => controller.debugLabel === 'route',
+        })
+        const root = createEffectController({ debugLabel: 'route', hooks: longLivedDetector.hooks })
+        root.onAbort(() => void 0)
+        const child = root.createController({ debugLabel: 'page' })
+        child.onAbort(() => void 0)
+
+        vitest.advanceTimersByTime(1000)
+
+        expect(longLivedDetector.check().map(report => report.id)).toEqual([child.id])
+        root.abort()
+    })
+
+    test('没有 cleanup 的 controller 不应该被报告', () => {
+        ctrl.createController()
+
+        vitest.advanceTimersByTime(1000)
+
+        expect(detector.check()).toHaveLength(0)
+    })
+
+    test('已经 abort 的 controller 不应该被报告', () => {
+        const child = ctrl.createController()
+        child.onAbort(() => void 0)
+        child.abort()
+
+        vitest.advanceTimersByTime(1000)
+
+        expect(detector.check()).toHaveLength(0)
+    })
+
+    test('开启 FinalizationRegistry 后依然可以检测存活的 controller', () => {
+        const weakDetector = createLeakDetector({ thresholdMs: 1000, onLeak, useFinalizationRegistry: true })
+        const root = createEffectController({ hooks: weakDetector.hooks })
+        root.onAbort(() => void 0)
+
+        vitest.advanceTimersByTime(1000)
+
+        expect(weakDetector.check()).toHaveLength(1)
+        root.abort()
+        expect(weakDetector.check()).toHaveLength(0)
+    })
+
+    test('只有库内部注册的 cleanup 的 controller 不应该被报告', () => {
+        const controller = new AbortController()
+        ctrl.createController({ signal: controller.signal })
+        anyOf([ctrl.createController()], { hooks: detector.hooks })
+
+        vitest.advanceTimersByTime(1000)
+
+        expect(detector.check()).toHaveLength(0)
+    })
+
+    test('没有 abort 就被回收的 controller 应该以 collected 报告', () => {
+        const register = vitest.fn()
+        let finalize: (heldValue: unknown) => void = () => void 0
+        vitest.stubGlobal('FinalizationRegistry', class {
+            register = register
+            unregister = vitest.fn()
+
+            constructor(callback: (heldValue: unknown) => void) {
+                finalize = callback
+            }
+        })
+
+        const weakDetector = createLeakDetector({ thresholdMs: 1000, onLeak, useFinalizationRegistry: true })
+        const orphan = createEffectController({ debugLabel: 'orphan', hooks: weakDetector.hooks })
+        orphan.onAbort(() => void 0)
+        finalize(register.mock.calls[0][1])
+
+        expect(onLeak).toHaveBeenCalledWith(expect.objectContaining({ kind: 'collected', id: orphan.id, labelPath: 'orphan' }))
+        vitest.advanceTimersByTime(1000)
+        expect(weakDetector.check()).toHaveLength(0)
+    })
+})
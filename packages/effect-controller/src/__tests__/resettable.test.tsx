@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController, EffectTransaction } from "../chore";
+import { EffectCleanupError } from "../error";
+import { isAbortReason } from "../reason";
+import { createResettableController, ResettableEffectController } from "../resettable";
+
+const delay = (time: number) => new Promise(resolve => setTimeout(resolve, time))
+
+describe('可重置的 controller', () => {
+    let root: EffectController
+    let session: ResettableEffectController
+
+    beforeEach(() => {
+        root = createEffectController()
+        session = createResettableController({ debugLabel: 'session' }, root)
+    })
+
+    afterEach(() => {
+        root.abort()
+    })
+
+    test('reset 应该 abort 当前这一代，并且可以继续创建子 controller', () => {
+        const trace = vitest.fn()
+        session.onAbort(trace)
+        const first = session.current()
+
+        const second = session.reset()
+
+        expect(trace).toHaveBeenCalledTimes(1)
+        expect(isAbortReason(first.reason(), 'superseded')).toBe(true)
+        expect(second.aborted()).toBe(false)
+        expect(session.generation()).toBe(1)
+        expect(() => session.createController()).not.toThrow()
+    })
+
+    test('持有旧一代 context 的异步流程应该能发现自己已经过期', async () => {
+        const trace = vitest.fn()
+
+        async function connect(ctx: ResettableEffectController) {
+            const child = ctx.createController()
+            await delay(10)
+
+            if (!session.isCurrent(child)) {
+                trace('stale', session.generationOf(child))
+                return
+            }
+            trace('connected')
+        }
+
+        const connect$ = connect(session)
+        session.reset()
+        await connect$
+
+        expect(trace).toHaveBeenCalledWith('stale', 0)
+    })
+
+    test('父 context abort 时应该 abort 当前这一代', () => {
+        const current = session.current()
+
+        root.abort()
+
+        expect(current.aborted()).toBe(true)
+        expect(session.aborted()).toBe(true)
+    })
+
+    test('父 context 已经 abort 时 reset 应该抛错，并且不修改代数', () => {
+        const current = session.current()
+        root.abort()
+
+        expect(() => session.reset()).toThrowError()
+        expect(session.generation()).toBe(0)
+        expect(session.current()).toBe(current)
+    })
+
+    test('当前这一代的 cleanup 抛错时，reset 依然应该切换到新一代', () => {
+        session.onAbort(() => { throw new Error('boom') })
+
+        expect(() => session.reset()).toThrowError(EffectCleanupError)
+        expect(session.generation()).toBe(1)
+        expect(session.aborted()).toBe(false)
+    })
+
+    test('作为 EffectContext 传给 EffectTransaction 时应该作用在当前这一代上', () => {
+        const cleanup = vitest.fn()
+        new EffectTransaction(session).act(() => 1, cleanup)
+
+        session.reset()
+
+        expect(cleanup).toHaveBeenCalledWith(1)
+        expect(session.isCurrent(session.current())).toBe(true)
+        expect(session.generationOf(createEffectController())).toBeUndefined()
+    })
+
+    test('异步 action 执行中 reset 时，应该按开始时的那一代得到 aborted 结果', async () => {
+        const txn = new EffectTransaction(session)
+        const pending = txn.actAsync(ctx => new Promise((_, reject) => {
+            ctx.signal.addEventListener('abort', () => { reject(new Error('cancelled')) })
+        }))
+
+        session.reset()
+
+        expect((await pending).status).toBe('aborted')
+    })
+
+    test('reset 之后迟到的值应该立即交给 cleanup，而不是注册到新一代上', async () => {
+        const cleanup = vitest.fn()
+        const txn = new EffectTransaction(session)
+        const pending = txn.actAsync(async () => {
+            await delay(10)
+            return 1
+        }, cleanup)
+
+        session.reset()
+
+        expect((await pending).status).toBe('aborted')
+        expect(cleanup).toHaveBeenCalledWith(1)
+        expect(session.current().inspect().pendingCleanups).toBe(0)
+    })
+})
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { EventEmitter } from "node:events";
+import { createEffectController, EffectController } from "../chore";
+import * as resource from "../resource";
+
+describe('resource', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        vitest.useFakeTimers()
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+        vitest.useRealTimers()
+    })
+
+    test('delay 应该在到时后返回 ok，被 abort 时立即返回 aborted', async () => {
+        const ok$ = resource.delay(ctrl, 100)
+        vitest.advanceTimersByTime(100)
+        expect((await ok$).status).toBe('ok')
+
+        const aborted$ = resource.delay(ctrl, 100)
+        ctrl.abort()
+        expect((await aborted$).status).toBe('aborted')
+        expect(vitest.getTimerCount()).toBe(0)
+    })
+
+    test('setTimeout 触发后应该自动移除 cleanup，abort 时应该清除还没触发的 timer', () => {
+        const callback = vitest.fn()
+
+        resource.setTimeout(ctrl, callback, 100, 'a', 1)
+        vitest.advanceTimersByTime(100)
+
+        expect(callback).toBeCalledWith('a', 1)
+        expect(ctrl.inspect().pendingCleanups).toBe(0)
+
+        resource.setTimeout(ctrl, callback, 100)
+        ctrl.abort()
+        vitest.runAllTimers()
+
+        expect(callback).toBeCalledTimes(1)
+    })
+
+    test('setInterval 应该持续触发，直到 context abort 或调用返回的函数', () => {
+        const callback = vitest.fn()
+
+        const clear = resource.setInterval(ctrl, callback, 100)
+        vitest.advanceTimersByTime(300)
+        clear()
+        vitest.advanceTimersByTime(300)
+
+        expect(callback).toBeCalledTimes(3)
+        expect(ctrl.inspect().pendingCleanups).toBe(0)
+
+        resource.setInterval(ctrl, callback, 100)
+        ctrl.abort()
+        vitest.advanceTimersByTime(300)
+
+        expect(callback).toBeCalledTimes(3)
+    })
+
+    test('没有 requestAnimationFrame / requestIdleCallback 时应该退化为 setTimeout', () => {
+        const frame = vitest.fn()
+        const idle = vitest.fn()
+
+        resource.requestAnimationFrame(ctrl, frame)
+        resource.requestIdleCallback(ctrl, idle)
+        vitest.advanceTimersByTime(16)
+
+        expect(frame).toBeCalledTimes(1)
+        expect(idle).toBeCalledTimes(1)
+        expect((idle.mock.calls[0][0] as IdleDeadline).didTimeout).toBe(false)
+
+        resource.requestAnimationFrame(ctrl, frame)
+        resource.requestIdleCallback(ctrl, idle)
+        ctrl.abort()
+        vitest.runAllTimers()
+
+        expect(frame).toBeCalledTimes(1)
+        expect(idle).toBeCalledTimes(1)
+    })
+
+    test('queueMicrotask 在执行前 abort 时应该被跳过', async () => {
+        const callback = vitest.fn()
+
+        resource.queueMicrotask(ctrl, callback)
+        await Promise.resolve()
+        expect(callback).toBeCalledTimes(1)
+
+        resource.queueMicrotask(ctrl, callback)
+        ctrl.abort()
+        await Promise.resolve()
+        expect(callback).toBeCalledTimes(1)
+    })
+
+    test('addEventListener 应该在 abort 时移除监听，once 触发后自动移除 cleanup', () => {
+        const target = new EventTarget()
+        const listener = vitest.fn()
+        const onceListener = vitest.fn()
+
+        resource.addEventListener(ctrl, target, 'change', listener)
+        resource.addEventListener(ctrl, target, 'change', onceListener, { once: true })
+        target.dispatchEvent(new Event('change'))
+
+        expect(onceListener).toBeCalledTimes(1)
+        expect(ctrl.inspect().pendingCleanups).toBe(1)
+
+        ctrl.abort()
+        target.dispatchEvent(new Event('change'))
+
+        expect(listener).toBeCalledTimes(1)
+    })
+
+    test('addListener 应该在 abort 或调用返回的函数时移除 EventEmitter 的监听', () => {
+        const emitter = new EventEmitter()
+        const listener = vitest.fn()
+
+        const remove = resource.addListener(ctrl, emitter, 'data', listener)
+        emitter.emit('data', 1)
+        remove()
+        emitter.emit('data', 2)
+
+        resource.addListener(ctrl, emitter, 'data', listener)
+        ctrl.abort()
+        emitter.emit('data', 3)
+
+        expect(listener.mock.calls).toEqual([[1]])
+        expect(emitter.listenerCount('data')).toBe(0)
+    })
+
+    test('context 已经 abort 时不应该启动任何资源', () => {
+        const callback = vitest.fn()
+        ctrl.abort()
+
+        resource.setTimeout(ctrl, callback, 0)
+        resource.setInterval(ctrl, callback, 10)
+
+        expect(vitest.getTimerCount()).toBe(0)
+    })
+})
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+import { createAbortReason } from "../reason";
+import { abortableIterable, abortableStream } from "../stream";
+
+function createCountingIterable(limit = Infinity) {
+    const trace = { next: 0, return: 0 }
+    const iterable: AsyncIterable<number> = {
+        [Symbol.asyncIterator]: () => ({
+            next: () => {
+                trace.next++
+                return Promise.resolve(trace.next > limit
+                    ? { done: true, value: undefined }
+                    : { done: false, value: trace.next })
+            },
+            return: () => {
+                trace.return++
+                return Promise.resolve({ done: true, value: undefined })
+            },
+        }),
+    }
+
+    return { iterable, trace }
+}
+
+describe('abortableIterable', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('context 被 abort 时应该结束迭代，并只调用一次 return()', async () => {
+        const { iterable, trace } = createCountingIterable()
+        const values: number[] = []
+
+        for await (const value of abortableIterable(ctrl, iterable)) {
+            values.push(value)
+            if (value === 3) {
+                ctrl.abort()
+            }
+        }
+
+        expect(values).toEqual([1, 2, 3])
+        expect(trace.return).toBe(1)
+    })
+
+    test('提前 break 时应该只调用一次 return()，之后 abort 不会再次调用', async () => {
+        const { iterable, trace } = createCountingIterable()
+
+        for await (const value of abortableIterable(ctrl, iterable)) {
+            if (value === 2) {
+                break
+            }
+        }
+        ctrl.abort()
+
+        expect(trace.return).toBe(1)
+        expect(ctrl.inspect().pendingCleanups).toBe(0)
+    })
+
+    test('只在消费方拉取时才向数据源请求下一项', async () => {
+        const { iterable, trace } = createCountingIterable()
+        const iterator = abortableIterable(ctrl, iterable)
+
+        expect(trace.next).toBe(0)
+
+        await iterator.next()
+        await iterator.next()
+
+        expect(trace.next).toBe(2)
+    })
+
+    test('正常结束时不应该调用 return()', async () => {
+        const { iterable, trace } = createCountingIterable(2)
+        const values: number[] = []
+
+        for await (const value of abortableIterable(ctrl, iterable)) {
+            values.push(value)
+        }
+        ctrl.abort()
+
+        expect(values).toEqual([1, 2])
+        expect(trace.return).toBe(0)
+    })
+
+    test('挂起中的 next 应该在 abort 时立即以 done 结束', async () => {
+        async function* source() {
+            yield 1
+            await new Promise(() => void 0)
+        }
+
+        const iterator = abortableIterable(ctrl, source())
+        await iterator.next()
+        const next$ = iterator.next()
+
+        ctrl.abort()
+
+        expect(await next$).toEqual({ done: true, value: undefined })
+    })
+
+    test('context 已经 abort 时应该直接结束，并调用 return()', async () => {
+        const { iterable, trace } = createCountingIterable()
+        ctrl.abort()
+
+        const iterator = abortableIterable(ctrl, iterable)
+
+        expect(await iterator.next()).toEqual({ done: true, value: undefined })
+        expect(trace.next).toBe(0)
+        expect(trace.return).toBe(1)
+    })
+})
+
+describe('abortableStream', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController()
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    function createStream() {
+        const cancel = vitest.fn()
+        let count = 0
+        const stream = new ReadableStream<number>({
+            pull(controller) {
+                count++
+                controller.enqueue(count)
+            },
+            cancel,
+        }, { highWaterMark: 0 })
+
+        return { stream, cancel, pulls: () => count }
+    }
+
+    test('context 被 abort 时应该以 abort 原因 cancel 一次 reader', async () => {
+        const { stream, cancel } = createStream()
+        const reason = createAbortReason('navigation')
+        const values: number[] = []
+
+        for await (const value of abortableStream(ctrl, stream)) {
+            values.push(value)
+            if (value === 2) {
+                ctrl.abort(reason)
+            }
+        }
+
+        expect(values).toEqual([1, 2])
+        expect(cancel).toBeCalledTimes(1)
+        expect(cancel).toBeCalledWith(reason)
+        expect(stream.locked).toBe(false)
+    })
+
+    test('应该保持背压，不会提前读取数据', async () => {
+        const { stream, pulls } = createStream()
+        const iterator = abortableStream(ctrl, stream)
+
+        await iterator.next()
+        await iterator.next()
+        await Promise.resolve()
+
+        expect(pulls()).toBe(2)
+    })
+
+    test('数据源 cancel 抛错时不应该影响 abort', async () => {
+        const stream = new ReadableStream<number>({
+            pull(controller) {
+                controller.enqueue(1)
+            },
+            cancel() {
+                throw new Error('cancel failed')
+            },
+        }, { highWaterMark: 0 })
+        const iterator = abortableStream(ctrl, stream)
+        await iterator.next()
+
+        const report = await ctrl.abortAsync()
+
+        expect(report.failed).toHaveLength(0)
+        expect(await iterator.next()).toEqual({ done: true, value: undefined })
+        expect(stream.locked).toBe(false)
+    })
+
+    test('正常读取结束后应该释放 reader 的锁，且不会 cancel', async () => {
+        const cancel = vitest.fn()
+        const stream = new ReadableStream<number>({
+            start(controller) {
+                controller.enqueue(1)
+                controller.close()
+            },
+            cancel,
+        })
+        const values: number[] = []
+
+        for await (const value of abortableStream(ctrl, stream)) {
+            values.push(value)
+        }
+        ctrl.abort()
+
+        expect(values).toEqual([1])
+        expect(cancel).not.toBeCalled()
+        expect(stream.locked).toBe(false)
+    })
+})
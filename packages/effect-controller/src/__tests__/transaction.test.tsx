@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController, EffectTransaction } from "../chore";
+import type { EffectContext } from "../types";
+
+describe('EffectTransaction 的 commit 与 rollback', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController({ debugLabel: 'root' })
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('rollback 应该按逆序只执行本事务的 cleanup', () => {
+        const trace = vitest.fn()
+        ctrl.onAbort(() => { trace('context') })
+
+        const txn = new EffectTransaction(ctrl)
+        txn.act(() => 'first', trace)
+        txn.act(() => 'second', trace)
+        txn.rollback()
+
+        expect(txn.state()).toBe('rolledBack')
+        expect(trace.mock.calls).toEqual([['second'], ['first']])
+        expect(ctrl.aborted()).toBe(false)
+
+        ctrl.abort()
+
+        expect(trace).toHaveBeenLastCalledWith('context')
+    })
+
+    test('rollback 之后的 action 应该直接返回 aborted', async () => {
+        const txn = new EffectTransaction(ctrl)
+        txn.rollback()
+
+        const callback = vitest.fn()
+
+        expect(txn.act(callback).aborted).toBe(true)
+        expect((await txn.actAsync(() => Promise.resolve(1))).status).toBe('aborted')
+        expect(callback).not.toBeCalled()
+    })
+
+    test('commit 之后 cleanup 应该留在 context 上，按注册的逆序执行', () => {
+        const trace = vitest.fn()
+        ctrl.onAbort(() => { trace('before') })
+
+        const txn = new EffectTransaction(ctrl)
+        txn.act(() => 'first', trace)
+        txn.act(() => 'second', trace)
+        txn.commit()
+
+        ctrl.onAbort(() => { trace('after') })
+
+        expect(txn.state()).toBe('committed')
+        expect(trace).not.toBeCalled()
+        expect(ctrl.inspect()).toMatchObject({ pendingCleanups: 4, children: [] })
+
+        ctrl.abort()
+
+        expect(trace.mock.calls).toEqual([['after'], ['second'], ['first'], ['before']])
+    })
+
+    test('没有 commit 或 rollback 时，cleanup 的执行顺序应该与直接注册在 context 上一致', () => {
+        const trace = vitest.fn()
+        ctrl.onAbort(() => { trace('A') })
+        new EffectTransaction(ctrl).act(() => 'B', trace)
+        ctrl.onAbort(() => { trace('C') })
+
+        ctrl.abort()
+
+        expect(trace.mock.calls).toEqual([['C'], ['B'], ['A']])
+    })
+
+    test('commit 不应该改变 cleanup 与 context 上其他 cleanup 的相对顺序', () => {
+        const trace = vitest.fn()
+        const txn = new EffectTransaction(ctrl)
+        txn.act(() => 'first', trace)
+        ctrl.onAbort(() => { trace('context') })
+        txn.act(() => 'second', trace)
+        txn.commit()
+
+        ctrl.abort()
+
+        expect(trace.mock.calls).toEqual([['second'], ['context'], ['first']])
+    })
+
+    test('commit 时应该保留 onFailure 为 keep 的 action context，直到 context abort', async () => {
+        const inFlightCleanup = vitest.fn()
+        const txn = new EffectTransaction(ctrl)
+
+        await txn.actAsync((actionContext) => {
+            actionContext.onAbort(inFlightCleanup)
+            return Promise.reject(new Error('failed'))
+        }, undefined, { onFailure: 'keep' })
+        txn.commit()
+
+        expect(inFlightCleanup).not.toBeCalled()
+        expect(ctrl.inspect().children).toHaveLength(1)
+
+        ctrl.abort()
+
+        expect(inFlightCleanup).toBeCalledTimes(1)
+    })
+
+    test('rollback 应该同时释放 onFailure 为 keep 的 action context', async () => {
+        const inFlightCleanup = vitest.fn()
+        const txn = new EffectTransaction(ctrl)
+
+        await txn.actAsync((actionContext) => {
+            actionContext.onAbort(inFlightCleanup)
+            return Promise.reject(new Error('failed'))
+        }, undefined, { onFailure: 'keep' })
+        txn.rollback()
+
+        expect(inFlightCleanup).toBeCalledTimes(1)
+        expect(ctrl.inspect().children).toHaveLength(0)
+    })
+
+    test('commit 之前拿到的 removeCleanup 在 commit 之后仍然有效', () => {
+        const cleanup = vitest.fn()
+        const txn = new EffectTransaction(ctrl)
+        const { removeCleanup } = txn.act(() => 1, cleanup)
+
+        txn.commit()
+        removeCleanup()
+        ctrl.abort()
+
+        expect(cleanup).not.toBeCalled()
+    })
+
+    test('rollback 应该取消执行中的 action', async () => {
+        const txn = new EffectTransaction(ctrl)
+        let actionContext: EffectContext | undefined
+
+        const ret$ = txn.actAsync((context) => {
+            actionContext = context
+            return new Promise<number>((_, reject) => {
+                context.signal.addEventListener('abort', () => {
+                    reject(new DOMException('aborted', 'AbortError'))
+                })
+            })
+        })
+        txn.rollback()
+
+        expect(actionContext?.signal.aborted).toBe(true)
+        expect((await ret$).status).toBe('aborted')
+        expect(ctrl.aborted()).toBe(false)
+    })
+
+    test('commit 时仍在执行的 action，结束后 cleanup 也应该注册到 context 上', async () => {
+        const cleanup = vitest.fn()
+        const txn = new EffectTransaction(ctrl)
+        let resolveValue: (value: number) => void = () => void 0
+
+        const ret$ = txn.actAsync(() => new Promise<number>((resolve) => {
+            resolveValue = resolve
+        }), cleanup)
+        txn.commit()
+
+        expect(ctrl.inspect().children).toHaveLength(1)
+
+        resolveValue(42)
+        expect((await ret$).status).toBe('ok')
+        expect(ctrl.inspect().children).toHaveLength(0)
+
+        ctrl.abort()
+
+        expect(cleanup).toBeCalledWith(42)
+    })
+
+    test('多步操作中途失败时，rollback 应该撤销已经完成的步骤', async () => {
+        const state = { items: [] as string[] }
+        const txn = new EffectTransaction(ctrl)
+
+        txn.act(() => state.items.push('a'), () => { state.items.pop() })
+        txn.act(() => state.items.push('b'), () => { state.items.pop() })
+        const ret = await txn.actAsync(() => Promise.reject(new Error('failed')))
+
+        if (ret.status === 'failed') {
+            txn.rollback()
+        }
+
+        expect(state.items).toEqual([])
+        expect(txn.state()).toBe('rolledBack')
+    })
+
+    test('context 已经 abort 时，事务应该处于 aborted 状态，commit 与 rollback 都不生效', () => {
+        ctrl.abort()
+        const txn = new EffectTransaction(ctrl)
+        const callback = vitest.fn()
+
+        expect(txn.state()).toBe('aborted')
+        expect(txn.act(callback).aborted).toBe(true)
+
+        txn.commit()
+        txn.rollback()
+
+        expect(txn.state()).toBe('aborted')
+        expect(callback).not.toBeCalled()
+    })
+
+    test('事务执行中 context 被 abort 时，应该处于 aborted 状态并执行 cleanup', () => {
+        const cleanup = vitest.fn()
+        const txn = new EffectTransaction(ctrl)
+        txn.act(() => 1, cleanup)
+
+        ctrl.abort()
+
+        expect(txn.state()).toBe('aborted')
+        expect(cleanup).toBeCalledWith(1)
+    })
+})
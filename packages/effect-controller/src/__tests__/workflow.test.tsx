@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, test, vitest } from "vitest";
+import { createEffectController, EffectController } from "../chore";
+import { createWorkflow } from "../workflow";
+
+const delay = (time: number) => new Promise(resolve => setTimeout(resolve, time))
+
+describe('workflow', () => {
+    let ctrl: EffectController
+
+    beforeEach(() => {
+        ctrl = createEffectController({ debugLabel: 'checkout' })
+    })
+
+    afterEach(() => {
+        ctrl.abort()
+    })
+
+    test('全部步骤成功时应该按顺序执行，并丢弃 compensate', async () => {
+        const trace = vitest.fn()
+
+        const report = await createWorkflow()
+            .step('reserve', { run: () => 'reservation', compensate: trace })
+            .step('charge', { run: () => Promise.resolve('payment'), compensate: trace })
+            .run(ctrl)
+
+        expect(report).toEqual({
+            status: 'ok',
+            steps: [
+                { name: 'reserve', status: 'completed' },
+                { name: 'charge', status: 'completed' },
+            ],
+        })
+
+        ctrl.abort()
+
+        expect(trace).not.toBeCalled()
+        expect(ctrl.inspect().children).toHaveLength(0)
+    })
+
+    test('某一步失败时应该逆序撤销已经完成的步骤，并跳过之后的步骤', async () => {
+        const trace = vitest.fn()
+        const error = new Error('card declined')
+        const confirm = vitest.fn()
+
+        const report = await createWorkflow()
+            .step('reserve', { run: () => 'reservation', compensate: (value) => { trace('release', value) } })
+            .step('coupon', { run: () => 'coupon', compensate: (value) => { trace('restore', value) } })
+            .step('charge', { run: () => Promise.reject(error) })
+            .step('confirm', { run: confirm })
+            .run(ctrl)
+
+        expect(trace.mock.calls).toEqual([['restore', 'coupon'], ['release', 'reservation']])
+        expect(confirm).not.toBeCalled()
+        expect(report).toEqual({
+            status: 'failed',
+            error,
+            steps: [
+                { name: 'reserve', status: 'compensated' },
+                { name: 'coupon', status: 'compensated' },
+                { name: 'charge', status: 'failed', error },
+                { name: 'confirm', status: 'skipped' },
+            ],
+        })
+        expect(ctrl.aborted()).toBe(false)
+    })
+
+    test('执行中 context 被 abort 时应该停止，并撤销已经完成的步骤', async () => {
+        const release = vitest.fn()
+        let chargeStarted: () => void = () => void 0
+        const chargeStarted$ = new Promise<void>((resolve) => {
+            chargeStarted = resolve
+        })
+
+        const report$ = createWorkflow()
+            .step('reserve', { run: () => 'reservation', compensate: release })
+            .step('charge', {
+                run: (ctx) => new Promise((_, reject) => {
+                    chargeStarted()
+                    ctx.signal.addEventListener('abort', () => {
+                        reject(new DOMException('aborted', 'AbortError'))
+                    })
+                }),
+            })
+            .step('confirm', { run: () => 'confirmed' })
+            .run(ctrl)
+
+        await chargeStarted$
+        ctrl.abort()
+        const report = await report$
+
+        expect(release).toBeCalledWith('reservation')
+        expect(report).toEqual({
+            status: 'aborted',
+            steps: [
+                { name: 'reserve', status: 'compensated' },
+                { name: 'charge', status: 'aborted' },
+                { name: 'confirm', status: 'skipped' },
+            ],
+        })
+    })
+
+    test('abort 之后才完成的步骤，拿到结果后也应该被撤销，但不修改已经返回的报告', async () => {
+        const refund = vitest.fn()
+        const onLateCompensation = vitest.fn()
+        let resolvePayment: (value: string) => void = () => void 0
+
+        const report$ = createWorkflow()
+            .step('charge', {
+                run: () => new Promise<string>((resolve) => {
+                    resolvePayment = resolve
+                }),
+                compensate: refund,
+            })
+            .run(ctrl, { onLateCompensation })
+
+        ctrl.abort()
+        // 默认不等待忽略 signal 的步骤
+        const report = await report$
+
+        expect(report).toEqual({ status: 'aborted', steps: [{ name: 'charge', status: 'aborted' }] })
+
+        resolvePayment('payment')
+        await delay(0)
+
+        expect(refund).toBeCalledWith('payment')
+        expect(onLateCompensation).toBeCalledWith({ name: 'charge', status: 'compensated' })
+        expect(report.steps).toEqual([{ name: 'charge', status: 'aborted' }])
+    })
+
+    test('在 lateStepTimeoutMs 内拿到结果的步骤应该先于更早的步骤撤销', async () => {
+        const trace = vitest.fn()
+        const onLateCompensation = vitest.fn()
+
+        const report$ = createWorkflow()
+            .step('reserve', { run: () => 1, compensate: () => { trace('reserve') } })
+            .step('charge', {
+                run: () => delay(10).then(() => 2),
+                compensate: () => { trace('charge') },
+            })
+            .run(ctrl, { lateStepTimeoutMs: 50, onLateCompensation })
+
+        await delay(0)
+        ctrl.abort()
+        const report = await report$
+
+        expect(trace.mock.calls.map(call => call[0] as string)).toEqual(['charge', 'reserve'])
+        expect(report.steps.map(step => step.status)).toEqual(['compensated', 'compensated'])
+        expect(onLateCompensation).not.toBeCalled()
+    })
+
+    test('超时之后才拿到的结果应该在其余撤销结束之后才撤销', async () => {
+        const trace = vitest.fn()
+        let resolvePayment: (value: string) => void = () => void 0
+
+        const report$ = createWorkflow()
+            .step('reserve', {
+                run: () => 1,
+                compensate: async () => {
+                    trace('reserve start')
+                    await delay(20)
+                    trace('reserve end')
+                },
+            })
+            .step('charge', {
+                run: () => new Promise<string>((resolve) => {
+                    resolvePayment = resolve
+                }),
+                compensate: () => { trace('charge') },
+            })
+            .run(ctrl, { lateStepTimeoutMs: 5 })
+
+        await delay(0)
+        ctrl.abort()
+        await delay(10)
+        resolvePayment('payment')
+        await report$
+        await delay(0)
+
+        expect(trace.mock.calls.map(call => call[0] as string)).toEqual(['reserve start', 'reserve end', 'charge'])
+    })
+
+    test('应该在前一个撤销结束之后才开始撤销更早的步骤', async () => {
+        const trace = vitest.fn()
+        const compensate = (name: string) => async () => {
+            trace(`${name} start`)
+            await delay(10)
+            trace(`${name} end`)
+        }
+
+        await createWorkflow()
+            .step('reserve', { run: () => 1, compensate: compensate('reserve') })
+            .step('coupon', { run: () => 2, compensate: compensate('coupon') })
+            .step('charge', { run: () => Promise.reject(new Error('card declined')) })
+            .run(ctrl)
+
+        expect(trace.mock.calls.map(call => call[0] as string)).toEqual([
+            'coupon start',
+            'coupon end',
+            'reserve start',
+            'reserve end',
+        ])
+    })
+
+    test('应该等待异步的 compensate，并记录撤销失败的步骤', async () => {
+        const error = new Error('refund failed')
+
+        const report = await createWorkflow()
+            .step('reserve', { run: () => 1, compensate: () => Promise.resolve() })
+            .step('charge', { run: () => 2, compensate: () => Promise.reject(error) })
+            .step('confirm', { run: () => { throw new Error('failed') } })
+            .run(ctrl)
+
+        expect(report.steps.map(step => step.status)).toEqual(['compensated', 'compensationFailed', 'failed'])
+        expect(report.steps[1].error).toBe(error)
+    })
+
+    test('context 已经 abort 时不应该执行任何步骤', async () => {
+        const run = vitest.fn()
+        ctrl.abort()
+
+        const report = await createWorkflow().step('reserve', { run }).run(ctrl)
+
+        expect(run).not.toBeCalled()
+        expect(report).toEqual({ status: 'aborted', steps: [{ name: 'reserve', status: 'skipped' }] })
+    })
+})
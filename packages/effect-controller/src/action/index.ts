@@ -0,0 +1,27 @@
+import type { ActionErrorResult, ActionFailedResult, ActionResult, ActionResultMatcher, ActionSuccessResult } from '../types'
+
+export function isActionOk<T>(result: ActionResult<T>): result is ActionSuccessResult<T> {
+    return result.status === 'ok'
+}
+
+export function isActionAborted<T>(result: ActionResult<T>): result is ActionErrorResult<T> {
+    return result.status === 'aborted'
+}
+
+export function isActionFailed<T>(result: ActionResult<T>): result is ActionFailedResult {
+    return result.status === 'failed'
+}
+
+/**
+ * 按 status 分发到对应的分支，三个分支都必须提供
+ */
+export function matchActionResult<T, R>(result: ActionResult<T>, matcher: ActionResultMatcher<T, R>): R {
+    switch (result.status) {
+        case 'ok':
+            return matcher.ok(result.value)
+        case 'aborted':
+            return matcher.aborted(result.value)
+        case 'failed':
+            return matcher.failed(result.error)
+    }
+}
@@ -0,0 +1,4 @@
+// 运行环境没有 Symbol.dispose / Symbol.asyncDispose 时（例如较旧的浏览器），
+// 按照 TypeScript 官方建议的方式补上，保证 using / await using 与 EffectController 使用同一个 symbol
+(Symbol as { dispose?: symbol }).dispose ??= Symbol('Symbol.dispose');
+(Symbol as { asyncDispose?: symbol }).asyncDispose ??= Symbol('Symbol.asyncDispose');
@@ -3,98 +3,552 @@ import {
     AnyFunc,
     EffectSwitchWrapperFn,
     EffectSwitchCallback,
+    EffectSwitchWrapperOptions,
     EffectContext,
     ActionResult,
     ActionErrorResult,
+    ActionOptions,
+    TransactionState,
     ActionSuccessResult,
     ActionCleanupFn,
     AbortFn,
+    CleanupErrorHandler,
+    CleanupFailure,
+    CleanupRecord,
+    AbortAsyncOptions,
+    AbortReport,
+    EffectControllerHooks,
+    EffectControllerSnapshot,
 } from '../types'
+import { createAbortReason } from '../reason'
+import { EffectCleanupError } from '../error'
+import { abortDetached, isInternalCleanup, isPromiseLike, markInternalCleanup } from '../utils'
+import { LinkedList, LinkedListNode } from './linked-list'
+import './dispose-polyfill'
+
+interface CleanupEntry {
+    cleanup: AbortFn
+}
+
+interface TransactionEntry {
+    cleanup: AbortFn
+    remove: () => void
+}
+
+type CleanupOutcome =
+    | { status: 'fulfilled' }
+    | { status: 'rejected', error: unknown }
+    | { status: 'timeout' }
+
+function settleBefore(ret: PromiseLike<void>, deadline: number | undefined): Promise<CleanupOutcome> {
+    const settled = Promise.resolve(ret).then(
+        (): CleanupOutcome => ({ status: 'fulfilled' }),
+        (error: unknown): CleanupOutcome => ({ status: 'rejected', error }),
+    );
+    if (deadline === undefined) {
+        return settled;
+    }
+    // 已经过了 deadline 时不再等待，即使 promise 已经 resolve 也记为超时
+    if (deadline <= Date.now()) {
+        return Promise.resolve({ status: 'timeout' });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<CleanupOutcome>((resolve) => {
+        timer = setTimeout(() => {
+            resolve({ status: 'timeout' });
+        }, Math.max(0, deadline - Date.now()));
+    });
+
+    return Promise.race([settled, timeout]).finally(() => {
+        clearTimeout(timer);
+    });
+}
+
+let nextControllerId = 1;
+
+/**
+ * 只在本模块内使用的方法名，EffectTransaction 通过它以上报而不是抛出的方式处理没有调用方可以接住的错误
+ */
+const reportDetachedFailure = Symbol('reportDetachedFailure');
+
+function reportToHost(error: unknown): void {
+    if (typeof reportError === 'function') {
+        reportError(error);
+    } else {
+        console.error(error);
+    }
+}
+
+function earliest(a: number | undefined, b: number | undefined): number | undefined {
+    if (a === undefined) {
+        return b;
+    }
 
-export class EffectController implements EffectContext {
-    private readonly cleanupCallbacks: AbortFn[] = [];
-    private readonly childControllers: EffectController[] = [];
-    private _aborted = false;
+    return b === undefined ? a : Math.min(a, b);
+}
 
-    constructor(options?: EffectControllerOptions) {
-        if (options?.debugLabel) {
-            console.log(`[CREATE] id=${options.debugLabel}`)
+export class EffectController implements EffectContext, Disposable, AsyncDisposable {
+    private readonly cleanupCallbacks = new LinkedList<CleanupEntry>();
+    private readonly childControllers = new LinkedList<EffectController>();
+    private parentNode: LinkedListNode<EffectController> | null;
+    private readonly errorHandler: CleanupErrorHandler;
+    private readonly hooks: EffectControllerHooks;
+    private _parent: EffectController | null;
+    readonly debugLabel: string | undefined;
+    readonly id = nextControllerId++;
+    readonly createdAt = Date.now();
+    private readonly strict: boolean;
+    private _state: 'active' | 'aborting' | 'aborted' = 'active';
+    private _reason: unknown = undefined;
+    private _abortController: AbortController | null = null;
+    private readonly ownDeadline: number | undefined;
+    private deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * @param parent 父 controller，通常通过 createController 创建子 controller，而不是直接传入
+     */
+    constructor(options?: EffectControllerOptions, parent: EffectController | null = null) {
+        this.debugLabel = options?.debugLabel;
+        this.errorHandler = options?.errorHandler ?? 'rethrow';
+        this.hooks = options?.hooks ?? {};
+        this.strict = options?.strict ?? false;
+        this._parent = parent;
+
+        this.parentNode = parent ? parent.childControllers.push(this) : null;
+
+        if (options?.signal) {
+            this.linkSignal(...([] as AbortSignal[]).concat(options.signal));
         }
 
-        this.onAbort(() => {
-            if (options?.debugLabel) {
-                console.log(`[ABORTED] id=${options.debugLabel}`)
+        // 父 controller 的 deadline 到达时会连带 abort 子 controller，这里只需要为自己的 deadline 计时
+        this.ownDeadline = earliest(
+            options?.deadline,
+            options?.timeoutMs === undefined ? undefined : this.createdAt + options.timeoutMs,
+        );
+        if (!this.aborted() && this.ownDeadline !== undefined) {
+            this.startDeadlineTimer(this.ownDeadline);
+        }
+
+        this.notifyHook('onCreate', hooks => hooks.onCreate?.(this));
+    }
+
+    private startDeadlineTimer(deadline: number): void {
+        const abortByTimeout = () => {
+            this.abortInternally(createAbortReason('timeout', `deadline exceeded: ${this.debugLabel ?? '<anonymous>'}`));
+        };
+
+        const delay = deadline - Date.now();
+        if (delay <= 0) {
+            abortByTimeout();
+        } else {
+            this.deadlineTimer = setTimeout(abortByTimeout, delay);
+        }
+    }
+
+    get parent(): EffectController | null {
+        return this._parent;
+    }
+
+    private unlinkParent(): void {
+        if (this._parent && this.parentNode) {
+            this._parent.childControllers.remove(this.parentNode);
+        }
+        this._parent = null;
+        this.parentNode = null;
+    }
+
+    private hasAncestor(ctrl: EffectController): boolean {
+        for (let curr = this._parent; curr; curr = curr._parent) {
+            if (curr === ctrl) {
+                return true;
             }
-        })
+        }
+
+        return false;
+    }
+
+    /**
+     * 把当前 controller 从父 controller 上摘下，成为一棵独立的树，父 controller abort 时不再连带 abort 它
+     */
+    detach(): void {
+        this.unlinkParent();
+    }
+
+    /**
+     * 把一个已存在的 controller（连同它的子树）移动到当前 controller 下，
+     * 之后它会先于当前 controller 自身的 cleanup 被 abort。
+     * 所有检查都在修改之前完成，检查失败时原来的父子关系保持不变
+     */
+    adopt(child: EffectController): void {
+        if (this.aborted()) {
+            throw new Error('aborted controller can\'t adopt child controller');
+        }
+        if (child.aborted()) {
+            throw new Error('can\'t adopt an aborted controller');
+        }
+        if (child === this || this.hasAncestor(child)) {
+            throw new Error('can\'t adopt an ancestor controller');
+        }
+        if (child._parent === this) {
+            return;
+        }
+
+        child.unlinkParent();
+        child._parent = this;
+        child.parentNode = this.childControllers.push(child);
     }
 
     private createChildController(options?: EffectControllerOptions): EffectController {
-        const ctrl = new EffectController(options);
-        this.childControllers.push(ctrl);
+        // 显式传入 undefined 时同样继承父 controller 的配置
+        return new EffectController({
+            ...options,
+            errorHandler: options?.errorHandler ?? this.errorHandler,
+            hooks: options?.hooks ?? this.hooks,
+            strict: options?.strict ?? this.strict,
+        }, this);
+    }
+
+    abort(reason?: unknown): void {
+        const failures = this.abortTree(reason);
+        if (failures.length > 0) {
+            this.handleCleanupError(new EffectCleanupError(failures));
+        }
+    }
+
+    /**
+     * deadline 计时器、signal 的事件监听等内部触发的 abort 没有调用方可以接住错误，cleanup 的错误只上报不抛出
+     */
+    private abortInternally(reason: unknown): void {
+        const failures = this.abortTree(reason);
+        if (failures.length > 0) {
+            this.reportCleanupError(new EffectCleanupError(failures));
+        }
+    }
+
+    /**
+     * 与 abort 的执行顺序一致，但会依次等待返回 Promise 的 cleanup。
+     * 超过 timeoutMs 之后不再等待，剩余的 cleanup 依然会被调用，但只要返回 Promise 就记为超时
+     */
+    async abortAsync(reason?: unknown, options?: AbortAsyncOptions): Promise<AbortReport> {
+        const report: AbortReport = { completed: [], failed: [], timedOut: [] };
+        const deadline = options?.timeoutMs === undefined ? undefined : Date.now() + options.timeoutMs;
+
+        await this.abortTreeAsync(reason, report, deadline);
+        return report;
+    }
 
-        ctrl.onAbort(() => {
-            const idx = this.childControllers.indexOf(ctrl);
-            if (idx >= 0) {
-                this.childControllers.splice(idx, 1);
+    /**
+     * 先 abort 所有子 controller，再按注册的逆序执行 cleanup，
+     * 任何一个 cleanup 抛错都不会中断后续流程，错误会被收集起来统一返回
+     */
+    private abortTree(reason: unknown): CleanupFailure[] {
+        const failures: CleanupFailure[] = [];
+        if (!this.beginAbort(reason, failures)) {
+            return failures;
+        }
+
+        for (const child of this.childControllers.drain()) {
+            failures.push(...child.abortTree(reason));
+        }
+
+        for (const entry of this.cleanupCallbacks.drain()) {
+            this.callHook(failures, 'onCleanupRun', hooks => hooks.onCleanupRun?.(this, entry.cleanup), entry.cleanup);
+            try {
+                const ret = entry.cleanup(reason);
+                if (isPromiseLike(ret)) {
+                    this.watchAsyncCleanup(entry, ret);
+                }
+            } catch (error) {
+                this.recordFailure(failures, entry.cleanup, error);
             }
-        });
+        }
 
-        return ctrl;
+        this.finishAbort(failures);
+        return failures;
     }
 
-    abort(): void {
-        if (this._aborted) {
+    private async abortTreeAsync(reason: unknown, report: AbortReport, deadline: number | undefined): Promise<void> {
+        if (!this.beginAbort(reason, report.failed)) {
             return;
         }
 
-        for (let i = this.childControllers.length - 1; i >= 0; i--) {
-            this.childControllers[i].abort();
+        for (const child of this.childControllers.drain()) {
+            await child.abortTreeAsync(reason, report, deadline);
+        }
+
+        for (const entry of this.cleanupCallbacks.drain()) {
+            const record: CleanupRecord = { label: this.debugLabel, cleanup: entry.cleanup };
+
+            this.callHook(report.failed, 'onCleanupRun', hooks => hooks.onCleanupRun?.(this, entry.cleanup), entry.cleanup);
+            let ret: void | PromiseLike<void>;
+            try {
+                ret = entry.cleanup(reason);
+            } catch (error) {
+                this.recordFailure(report.failed, entry.cleanup, error);
+                continue;
+            }
+
+            if (!isPromiseLike(ret)) {
+                report.completed.push(record);
+                continue;
+            }
+
+            const outcome = await settleBefore(ret, deadline);
+            if (outcome.status === 'fulfilled') {
+                report.completed.push(record);
+            } else if (outcome.status === 'rejected') {
+                this.recordFailure(report.failed, entry.cleanup, outcome.error);
+            } else {
+                report.timedOut.push(record);
+            }
+        }
+
+        this.finishAbort(report.failed);
+    }
+
+    private beginAbort(reason: unknown, failures: CleanupFailure[]): boolean {
+        if (this._state !== 'active') {
+            return false;
+        }
+
+        this._state = 'aborting';
+        this._reason = reason;
+
+        // 保留 _parent，abort 之后依然可以拿到 label 路径等信息
+        if (this._parent && this.parentNode) {
+            this._parent.childControllers.remove(this.parentNode);
+            this.parentNode = null;
+        }
+        if (this.deadlineTimer !== null) {
+            clearTimeout(this.deadlineTimer);
+            this.deadlineTimer = null;
         }
-        this.childControllers.length = 0;
 
-        console.log('before abort length', this.cleanupCallbacks.length)
-        for (let i = this.cleanupCallbacks.length - 1; i >= 0; i--) {
-            console.log('before cb', this.cleanupCallbacks[i])
-            const cb = this.cleanupCallbacks[i];
-            cb();
-            console.log('cb', cb)
-            console.log('after cb, length', this.cleanupCallbacks.length)
+        // 在执行 cleanup 之前触发 signal，abortAsync 等待异步 cleanup 期间 fetch 等请求已经被取消
+        this._abortController?.abort(reason);
+
+        this.callHook(failures, 'onAbortStart', hooks => hooks.onAbortStart?.(this, reason));
+        return true;
+    }
+
+    private finishAbort(failures: CleanupFailure[]): void {
+        this._state = 'aborted';
+        this.callHook(failures, 'onAbortEnd', hooks => hooks.onAbortEnd?.(this, this._reason));
+    }
+
+    private recordFailure(failures: CleanupFailure[], cleanup: AbortFn, error: unknown): void {
+        const failure: CleanupFailure = { label: this.debugLabel, cleanup, error };
+        failures.push(failure);
+        this.callHook(failures, 'onError', hooks => hooks.onError?.(this, failure), cleanup);
+    }
+
+    /**
+     * 调用 hook，抛出的错误作为一次失败记录到 failures 中（不会再触发 onError），
+     * 保证 abort 流程一定可以走完，不会停留在 aborting 状态
+     */
+    private callHook(
+        failures: CleanupFailure[],
+        hook: keyof EffectControllerHooks,
+        call: (hooks: EffectControllerHooks) => void,
+        cleanup?: AbortFn,
+    ): void {
+        try {
+            call(this.hooks);
+        } catch (error) {
+            failures.push({ label: this.debugLabel, cleanup, hook, error });
+        }
+    }
+
+    /**
+     * abort 流程之外触发的 hook 没有汇总错误的地方，抛错时直接上报
+     */
+    private notifyHook(hook: keyof EffectControllerHooks, call: (hooks: EffectControllerHooks) => void, cleanup?: AbortFn): void {
+        const failures: CleanupFailure[] = [];
+        this.callHook(failures, hook, call, cleanup);
+        if (failures.length > 0) {
+            this.reportCleanupError(new EffectCleanupError(failures));
+        }
+    }
+
+    /**
+     * 同步 abort 不会等待异步 cleanup，但它们的失败依然需要交给 errorHandler
+     */
+    private watchAsyncCleanup(entry: CleanupEntry, ret: PromiseLike<void>): void {
+        Promise.resolve(ret).catch((error: unknown) => {
+            const failures: CleanupFailure[] = [];
+            this.recordFailure(failures, entry.cleanup, error);
+            this.reportCleanupError(new EffectCleanupError(failures));
+        });
+    }
+
+    /**
+     * 没有调用方可以接住错误时使用：rethrow 模式下改为上报，避免变成 unhandled rejection 或 uncaught exception
+     */
+    private reportCleanupError(error: EffectCleanupError): void {
+        if (this.errorHandler === 'rethrow') {
+            reportToHost(error);
+            return;
+        }
+
+        this.handleCleanupError(error);
+    }
+
+    [abortDetached](reason: unknown): void {
+        this.abortInternally(reason);
+    }
+
+    [reportDetachedFailure](cleanup: AbortFn, error: unknown): void {
+        const failures: CleanupFailure[] = [];
+        this.recordFailure(failures, cleanup, error);
+        this.reportCleanupError(new EffectCleanupError(failures));
+    }
+
+    private handleCleanupError(error: EffectCleanupError): void {
+        const handler = this.errorHandler;
+        if (handler === 'rethrow') {
+            throw error;
         }
 
-        console.log('after abort length', this.cleanupCallbacks.length)
-        if (this.cleanupCallbacks.length > 0) {
-            throw new Error('cleanup callbacks not empty');
+        if (handler === 'report') {
+            reportToHost(error);
+            return;
         }
 
-        this._aborted = true;
+        if (handler !== 'swallow') {
+            handler(error);
+        }
     }
 
     aborted(): boolean {
-        return this._aborted;
+        return this._state !== 'active';
     }
 
-    onAbort(cleanup: AbortFn): AbortFn {
-        const wrappedCleanup = () => {
-            cleanup();
-            removeCleanup();
+    reason(): unknown {
+        return this._reason;
+    }
+
+    deadline(): number | undefined {
+        return earliest(this.ownDeadline, this._parent?.deadline());
+    }
+
+    get signal(): AbortSignal {
+        if (!this._abortController) {
+            this._abortController = new AbortController();
+            if (this._state !== 'active') {
+                this._abortController.abort(this._reason);
+            }
+        }
+
+        return this._abortController.signal;
+    }
+
+    /**
+     * 在 abort 过程中或 abort 之后注册的 cleanup 会立即以当前的 abort 原因执行，与 AbortSignal 的预期一致；
+     * strict 模式下则会直接抛错，用来发现 await 之后没有检查 aborted 状态的代码
+     */
+    onAbort(cleanup: AbortFn): () => void {
+        if (this._state !== 'active') {
+            if (this.strict) {
+                throw new Error(`onAbort called on ${this._state} controller "${this.debugLabel ?? '<anonymous>'}"`);
+            }
+
+            this.notifyHook('onCleanupRun', hooks => hooks.onCleanupRun?.(this, cleanup), cleanup);
+            const ret = cleanup(this._reason);
+            if (isPromiseLike(ret)) {
+                this.watchAsyncCleanup({ cleanup }, ret);
+            }
+            return () => void 0;
+        }
+
+        const node = this.cleanupCallbacks.push({ cleanup });
+
+        return () => {
+            if (this.cleanupCallbacks.remove(node)) {
+                this.notifyHook('onCleanupRemoved', hooks => hooks.onCleanupRemoved?.(this, cleanup), cleanup);
+            }
         };
+    }
+
+    linkSignal(...signals: AbortSignal[]): () => void {
+        if (this.aborted()) {
+            return () => void 0;
+        }
 
-        const removeCleanup = () => {
-            console.log('before remove length', this.cleanupCallbacks.length)
-            const idx = this.cleanupCallbacks.indexOf(wrappedCleanup);
-            console.log('removeCleanup, idx=', idx)
-            if (idx >= 0) {
-                this.cleanupCallbacks.splice(idx, 1);
+        const abortedSignal = signals.find(signal => signal.aborted);
+        if (abortedSignal) {
+            this.abort(abortedSignal.reason);
+            return () => void 0;
+        }
+
+        const handleAbort = (event: Event) => {
+            this.abortInternally((event.target as AbortSignal).reason);
+        };
+        const unlink = markInternalCleanup(() => {
+            for (const signal of signals) {
+                signal.removeEventListener('abort', handleAbort);
             }
-            console.log('after remove length', this.cleanupCallbacks.length)
+        });
+
+        for (const signal of signals) {
+            signal.addEventListener('abort', handleAbort);
+        }
+        const removeCleanup = this.onAbort(unlink);
+
+        return () => {
+            unlink();
+            removeCleanup();
         };
+    }
 
-        this.cleanupCallbacks.push(wrappedCleanup);
-        return removeCleanup;
+    /**
+     * 把 resource 的 dispose 注册为 cleanup，并原样返回 resource。
+     * 同时实现了两者时优先使用同步的 Symbol.dispose，这样同步的 abort 结束时资源就已经释放
+     */
+    use<T extends Disposable | AsyncDisposable | null | undefined>(resource: T): T {
+        if (!resource) {
+            return resource;
+        }
+
+        this.onAbort(() => {
+            if (Symbol.dispose in resource) {
+                resource[Symbol.dispose]();
+                return;
+            }
+
+            return resource[Symbol.asyncDispose]();
+        });
+        return resource;
+    }
+
+    [Symbol.dispose](): void {
+        this.abort(createAbortReason('disposed'));
+    }
+
+    async [Symbol.asyncDispose](): Promise<void> {
+        const report = await this.abortAsync(createAbortReason('disposed'));
+        if (report.failed.length > 0) {
+            this.handleCleanupError(new EffectCleanupError(report.failed));
+        }
+    }
+
+    /**
+     * 以当前 controller 为根，生成一份可以 JSON 序列化的存活 controller 树快照
+     */
+    inspect(): EffectControllerSnapshot {
+        return {
+            id: this.id,
+            label: this.debugLabel ?? null,
+            aborted: this.aborted(),
+            pendingCleanups: this.cleanupCallbacks.size,
+            internalCleanups: Array.from(this.cleanupCallbacks).filter(entry => isInternalCleanup(entry.cleanup)).length,
+            createdAt: this.createdAt,
+            children: Array.from(this.childControllers, child => child.inspect()),
+        };
     }
 
     createController(options?: EffectControllerOptions): EffectController {
-        if (this._aborted) {
+        if (this.aborted()) {
             throw new Error('aborted controller can\'t create child controller');
         }
 
@@ -103,42 +557,252 @@ export class EffectController implements EffectContext {
 
 }
 
+/**
+ * 把多个 action 组成一个整体：action 的 cleanup 与 action context 直接注册在 context 上，
+ * 与直接调用 context.onAbort 的执行顺序一致；事务会记住它们，
+ * commit 时不再跟踪，rollback 时只按注册的逆序执行本事务的 cleanup
+ */
 export class EffectTransaction {
     private readonly _context: EffectContext;
+    private _settledState: 'committed' | 'rolledBack' | null = null;
+
+    /**
+     * 本事务注册在 context 上、还没有 commit 的 cleanup，以及还没有释放的 action context
+     */
+    private entries = new LinkedList<TransactionEntry>();
+    private readonly actionContexts = new Set<EffectController>();
 
     constructor(context: EffectContext) {
         this._context = context;
     }
 
-    act<RET>(callback: () => RET, cleanup?: ActionCleanupFn<RET>): ActionResult<RET> {
-        if (this._context.aborted()) {
-            return { aborted: true, removeCleanup: () => void 0 };
+    state(): TransactionState {
+        if (this._settledState) {
+            return this._settledState;
+        }
+
+        return this._context.aborted() ? 'aborted' : 'active';
+    }
+
+    /**
+     * 结束事务，已经注册的 cleanup 和保留的 action context 都留在 context 上，由 context abort 时处理。
+     * 之后的 action 与直接使用 context 没有区别，仍在执行中的 action 结束后 cleanup 也会注册到 context 上
+     */
+    commit(): void {
+        if (this.state() !== 'active') {
+            return;
+        }
+
+        this._settledState = 'committed';
+        this.entries = new LinkedList();
+        this.actionContexts.clear();
+    }
+
+    /**
+     * 撤销事务，按注册的逆序执行本事务的 cleanup 并取消执行中的 action，不影响 context 上的其他 cleanup。
+     * 之后的 action 都会直接返回 aborted
+     */
+    rollback(reason: unknown = createAbortReason('disposed')): void {
+        if (this.state() !== 'active') {
+            return;
+        }
+
+        this._settledState = 'rolledBack';
+
+        // 把本事务的 cleanup 与 action context 移到一个临时的子 scope 上执行，错误处理与 hooks 和 context 保持一致
+        const scope = this._context.createController();
+        for (const entry of Array.from(this.entries.drain()).reverse()) {
+            entry.remove();
+            scope.onAbort(entry.cleanup);
+        }
+        for (const actionContext of this.actionContexts) {
+            if (!actionContext.aborted()) {
+                scope.adopt(actionContext);
+            }
+        }
+        this.actionContexts.clear();
+
+        scope.abort(reason);
+    }
+
+    act<RET>(callback: () => RET, cleanup?: ActionCleanupFn<RET>): ActionSuccessResult<RET> | ActionErrorResult<RET> {
+        if (this.aborted()) {
+            return { status: 'aborted', aborted: true, removeCleanup: () => void 0 };
         }
 
         const ret = callback()
 
-        const removeCleanup = cleanup ? this._context.onAbort(() => {
+        const removeCleanup = cleanup ? this.onAbort(() => {
             cleanup(ret)
         }) : () => void 0;
 
-        return { aborted: false, value: ret, removeCleanup: removeCleanup };
+        return { status: 'ok', aborted: false, value: ret, removeCleanup: removeCleanup };
     }
 
-    actAsync<RET>(callback: () => PromiseLike<RET>, cleanup?: () => void): Promise<ActionResult<RET>> {
-        if (this._context.aborted()) {
-            return Promise.resolve({ aborted: true, removeCleanup: () => void 0 })
+    /**
+     * 执行异步 action，callback 会收到一个只属于本次 action 的子 context，
+     * 把它的 signal 传给 fetch 等 API，context 在执行途中被 abort 时可以立即取消请求；
+     * 只在执行期间有效的 cleanup（例如 loading 状态）可以注册在这个子 context 上。
+     * action 结束后该子 context 会以 disposed 原因被释放。
+     *
+     * 与 act 一样，cleanup 会拿到 action 的返回值：
+     * - resolve 时 context 仍然有效，cleanup 注册到 context 上，可以通过 removeCleanup 移除
+     * - resolve 之前 context 已经被 abort，值到达后立即执行 cleanup
+     *
+     * context 仍然有效时 promise reject（或 callback 同步抛错）会得到 failed 结果，子 context 按 options.onFailure 处理
+     */
+    actAsync<RET>(
+        callback: (actionContext: EffectContext) => PromiseLike<RET>,
+        cleanup?: ActionCleanupFn<RET>,
+        options: ActionOptions = {}
+    ): Promise<ActionResult<RET>> {
+        const ret = this.startAction(callback);
+        if (!ret) {
+            return Promise.resolve({ status: 'aborted', aborted: true, removeCleanup: () => void 0 })
         }
 
-        const ret = callback();
-        const removeCleanup = cleanup ? this._context.onAbort(() => { cleanup() }) : () => void 0;
+        const { promise, dispose, owner } = ret;
+        return promise.then((value): ActionResult<RET> => {
+            dispose();
 
-        return ret.then(value => {
-            if (this._context.aborted()) {
-                return { value, aborted: true, removeCleanup } as ActionErrorResult<RET>
+            if (this.aborted(owner)) {
+                if (cleanup) {
+                    this.runDetached(() => { cleanup(value) }, owner);
+                }
+                return { status: 'aborted', value, aborted: true, removeCleanup: () => void 0 }
             };
 
-            return { value, aborted: false, removeCleanup } as ActionSuccessResult<RET>
-        }) as Promise<ActionResult<RET>>
+            const removeCleanup = cleanup ? this.onAbort(() => { cleanup(value) }, owner) : () => void 0;
+            return { status: 'ok', value, aborted: false, removeCleanup }
+        }, (error: unknown): ActionResult<RET> => {
+            // 通过 signal 取消的请求会以 AbortError reject，此时按 aborted 处理
+            if (this.aborted(owner)) {
+                dispose();
+                return { status: 'aborted', aborted: true, removeCleanup: () => void 0 }
+            }
+
+            if ((options.onFailure ?? 'rollback') === 'rollback') {
+                dispose();
+            }
+
+            return { status: 'failed', aborted: false, error, removeCleanup: () => void 0 }
+        })
+    }
+
+    /**
+     * 与 actAsync 类似，但 context 被 abort 时会立即 resolve 为 aborted，不再等待 promise 结束。
+     * 如果 promise 在 abort 之后才 resolve，迟到的值会交给 cleanup 处理，用来释放它创建的资源；
+     * 在此之前调用 removeCleanup 可以取消对迟到值的处理。
+     *
+     * cleanup 只在拿到值之后才会注册，所以 abort 之前 reject 时只会得到 failed 结果，没有需要处理的 cleanup
+     */
+    race<RET>(callback: (actionContext: EffectContext) => PromiseLike<RET>, cleanup?: ActionCleanupFn<RET>): Promise<ActionResult<RET>> {
+        const ret = this.startAction(callback);
+        if (!ret) {
+            return Promise.resolve({ status: 'aborted', aborted: true, removeCleanup: () => void 0 })
+        }
+
+        const { promise, dispose, owner } = ret;
+        return new Promise<ActionResult<RET>>((resolve) => {
+            let settled = false;
+            let lateCleanupRemoved = false;
+            const removeLateCleanup = () => { lateCleanupRemoved = true }
+
+            const removeAbortListener = this.onAbort(() => {
+                settled = true;
+                resolve({ status: 'aborted', aborted: true, removeCleanup: removeLateCleanup })
+            }, owner)
+
+            promise.finally(dispose).then(value => {
+                if (settled) {
+                    if (cleanup && !lateCleanupRemoved) {
+                        this.runDetached(() => { cleanup(value) }, owner);
+                    }
+                    return;
+                }
+
+                settled = true;
+                removeAbortListener();
+                const removeCleanup = cleanup ? this.onAbort(() => { cleanup(value) }, owner) : () => void 0;
+                resolve({ status: 'ok', value, aborted: false, removeCleanup })
+            }, (error: unknown) => {
+                // abort 之后的 reject 已经没有人关心了
+                if (settled) {
+                    return;
+                }
+
+                settled = true;
+                removeAbortListener();
+                resolve({ status: 'failed', aborted: false, error, removeCleanup: () => void 0 })
+            })
+        })
+    }
+
+    /**
+     * owner 为 action 开始时实际所在的 controller。context 是 ResettableEffectController 这类句柄时，
+     * 异步 action 需要一直绑定在开始时的那一代上，而不是结束时的当前一代
+     */
+    private aborted(owner: EffectContext = this._context): boolean {
+        return this._settledState === 'rolledBack' || owner.aborted();
+    }
+
+    /**
+     * 执行没有调用方可以接住错误的 cleanup（例如处理迟到的值），抛错时交给 context 上报，不影响 action 的结果
+     */
+    private runDetached(cleanup: () => void, owner: EffectContext = this._context): void {
+        try {
+            cleanup();
+        } catch (error) {
+            if (owner instanceof EffectController) {
+                owner[reportDetachedFailure](cleanup, error);
+            } else {
+                reportToHost(new EffectCleanupError([{ label: undefined, cleanup, error }]));
+            }
+        }
+    }
+
+    /**
+     * 把 cleanup 注册到 context 上，commit 之前同时记录下来，rollback 时需要把它摘下来执行。
+     * 已经随 context 执行过的 cleanup 不再记录，避免 rollback 时重复执行
+     */
+    private onAbort(cleanup: AbortFn, owner: EffectContext = this._context): () => void {
+        if (this._settledState === 'committed') {
+            return owner.onAbort(cleanup);
+        }
+
+        const entry: TransactionEntry = { cleanup, remove: () => void 0 };
+        const node = this.entries.push(entry);
+        entry.remove = owner.onAbort((reason) => {
+            this.entries.remove(node);
+            return cleanup(reason);
+        });
+
+        return () => {
+            this.entries.remove(node);
+            entry.remove();
+        };
+    }
+
+    private startAction<RET>(callback: (actionContext: EffectContext) => PromiseLike<RET>) {
+        if (this.aborted()) {
+            return null;
+        }
+
+        const actionContext = this._context.createController();
+        const owner: EffectContext = actionContext.parent ?? this._context;
+        this.actionContexts.add(actionContext);
+        const dispose = () => {
+            this.actionContexts.delete(actionContext);
+            // 释放发生在 promise 的回调中，action context 上 cleanup 的错误只上报，不影响 action 的结果
+            actionContext[abortDetached](createAbortReason('disposed'));
+        }
+
+        // callback 同步抛出的错误与 reject 一样处理
+        const promise = new Promise<RET>((resolve) => {
+            resolve(callback(actionContext));
+        });
+
+        return { promise, dispose, owner };
     }
 }
 
@@ -146,11 +810,24 @@ export function createEffectController(options?: EffectControllerOptions): Effec
     return new EffectController(options);
 }
 
-export function createEffectSwitchWrapper<Func extends AnyFunc>(effectContext: EffectContext, options?: EffectControllerOptions): EffectSwitchWrapperFn<Func> {
+/**
+ * 创建一个在 deadline（时间戳，单位 ms）时自动 abort 的子 controller，
+ * 实际的 deadline 是它自己与父 context 中更早的那个
+ */
+export function withDeadline(effectContext: EffectContext, deadline: number, options?: EffectControllerOptions): EffectController {
+    return effectContext.createController({ ...options, deadline });
+}
+
+export function withTimeout(effectContext: EffectContext, timeoutMs: number, options?: EffectControllerOptions): EffectController {
+    return effectContext.createController({ ...options, timeoutMs });
+}
+
+export function createEffectSwitchWrapper<Func extends AnyFunc>(effectContext: EffectContext, options?: EffectSwitchWrapperOptions): EffectSwitchWrapperFn<Func> {
+    const { switchReason = 'superseded', ...controllerOptions } = options ?? {};
     let currCtrl: EffectController | null = null;
-    effectContext.onAbort(() => {
+    effectContext.onAbort((reason) => {
         if (currCtrl) {
-            currCtrl.abort();
+            currCtrl.abort(reason);
             currCtrl = null;
         }
     })
@@ -158,9 +835,9 @@ export function createEffectSwitchWrapper<Func extends AnyFunc>(effectContext: E
     return (cb: EffectSwitchCallback<Func>) => {
         return ((...args: Parameters<Func>): ReturnType<Func> => {
             if (currCtrl) {
-                currCtrl.abort();
+                currCtrl.abort(createAbortReason(switchReason));
             }
-            currCtrl = effectContext.createController(options);
+            currCtrl = effectContext.createController(controllerOptions);
 
             // eslint-disable-next-line @typescript-eslint/no-unsafe-return
             return cb(currCtrl, ...args);
@@ -0,0 +1,89 @@
+export interface LinkedListNode<T> {
+    readonly value: T
+    prev: LinkedListNode<T> | null
+    next: LinkedListNode<T> | null
+
+    /**
+     * 节点的插入序号，用于区分某个时间点之后新插入的节点
+     */
+    readonly seq: number
+    attached: boolean
+}
+
+/**
+ * 侵入式双向链表，调用方持有 push 返回的节点，从而可以 O(1) 地删除
+ */
+export class LinkedList<T> {
+    private head: LinkedListNode<T> | null = null;
+    private tail: LinkedListNode<T> | null = null;
+    private _size = 0;
+    private nextSeq = 0;
+
+    get size(): number {
+        return this._size;
+    }
+
+    push(value: T): LinkedListNode<T> {
+        const node: LinkedListNode<T> = { value, prev: this.tail, next: null, seq: this.nextSeq++, attached: true };
+        if (this.tail) {
+            this.tail.next = node;
+        } else {
+            this.head = node;
+        }
+        this.tail = node;
+        this._size++;
+
+        return node;
+    }
+
+    remove(node: LinkedListNode<T>): boolean {
+        if (!node.attached) {
+            return false;
+        }
+
+        if (node.prev) {
+            node.prev.next = node.next;
+        } else {
+            this.head = node.next;
+        }
+        if (node.next) {
+            node.next.prev = node.prev;
+        } else {
+            this.tail = node.prev;
+        }
+
+        node.prev = null;
+        node.next = null;
+        node.attached = false;
+        this._size--;
+
+        return true;
+    }
+
+    /**
+     * 从尾到头依次移除并返回节点，只包含开始遍历之前就已经存在的节点。
+     * 遍历过程中允许任意删除节点
+     */
+    *drain(): Generator<T> {
+        const limit = this.nextSeq;
+
+        for (;;) {
+            let node = this.tail;
+            while (node && node.seq >= limit) {
+                node = node.prev;
+            }
+            if (!node) {
+                return;
+            }
+
+            this.remove(node);
+            yield node.value;
+        }
+    }
+
+    *[Symbol.iterator](): Iterator<T> {
+        for (let node = this.head; node; node = node.next) {
+            yield node.value;
+        }
+    }
+}
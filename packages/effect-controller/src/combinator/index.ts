@@ -0,0 +1,68 @@
+import { EffectController } from '../chore'
+import { createAbortReason } from '../reason'
+import { markInternalCleanup } from '../utils'
+import type { EffectContext, EffectControllerOptions } from '../types'
+
+/**
+ * 在每个父 context 下创建一个子 controller 作为连接点，父 context abort 时通过它通知 ctrl，
+ * 这样 ctrl 与父 context 的普通子 controller 一样先于父 context 自身的 cleanup abort
+ */
+function linkContexts(ctrl: EffectController, contexts: readonly EffectContext[], onParentAbort: (reason: unknown) => void) {
+    const links = contexts.map((ctx) => {
+        const link = ctx.createController({ debugLabel: ctrl.debugLabel })
+        const remove = link.onAbort(markInternalCleanup((reason: unknown) => { onParentAbort(reason) }))
+        return { link, remove }
+    })
+
+    // 自身被 abort 时，释放所有还存活的父 context 上的连接点
+    ctrl.onAbort(markInternalCleanup(() => {
+        links.forEach(({ link, remove }) => {
+            remove()
+            link.abort(createAbortReason('disposed'))
+        })
+    }))
+}
+
+/**
+ * 创建一个同时属于多个 context 的 controller，其中任意一个 abort 时它也会以相同的原因 abort。
+ * 创建时已经有 context 被 abort 时，返回的 controller 直接处于 aborted 状态。
+ * 它没有父 controller，hooks、errorHandler 等需要通过 options 传入
+ */
+export function anyOf(contexts: readonly EffectContext[], options?: EffectControllerOptions): EffectController {
+    const ctrl = new EffectController(options)
+
+    const abortedContext = contexts.find(ctx => ctx.aborted())
+    if (abortedContext) {
+        ctrl.abort(abortedContext.reason())
+        return ctrl
+    }
+
+    linkContexts(ctrl, contexts, (reason) => {
+        ctrl.abort(reason)
+    })
+    return ctrl
+}
+
+/**
+ * 创建一个在所有 context 都 abort 之后才 abort 的 controller，abort 原因为最后一个 abort 的 context 的原因。
+ * 与 Promise.all 一致，传入的 context 全部已经 abort（或者没有传入 context）时，返回的 controller 直接处于 aborted 状态。
+ * options 与 anyOf 相同
+ */
+export function allOf(contexts: readonly EffectContext[], options?: EffectControllerOptions): EffectController {
+    const ctrl = new EffectController(options)
+
+    const aliveContexts = contexts.filter(ctx => !ctx.aborted())
+    if (aliveContexts.length === 0) {
+        ctrl.abort(contexts.at(-1)?.reason())
+        return ctrl
+    }
+
+    let remaining = aliveContexts.length
+    linkContexts(ctrl, aliveContexts, (reason) => {
+        remaining--
+        if (remaining === 0) {
+            ctrl.abort(reason)
+        }
+    })
+    return ctrl
+}
@@ -0,0 +1,72 @@
+import type { EffectContext } from '../types'
+
+/**
+ * 保存当前 EffectContext 的存储，Node 的 AsyncLocalStorage 实例天然满足这个接口
+ */
+export interface EffectContextStorage {
+    run<R>(ctx: EffectContext, fn: () => R): R
+    getStore(): EffectContext | undefined
+}
+
+/**
+ * 默认的同步存储，只在 runInContext 的同步调用栈内有效，await 之后就会丢失
+ */
+export function createSyncContextStorage(): EffectContextStorage {
+    let current: EffectContext | undefined
+
+    return {
+        run: (ctx, fn) => {
+            const prev = current
+            current = ctx
+            try {
+                return fn()
+            } finally {
+                current = prev
+            }
+        },
+        getStore: () => current,
+    }
+}
+
+let storage: EffectContextStorage = createSyncContextStorage()
+
+/**
+ * 替换全局的 context 存储。在 Node 中传入 `new AsyncLocalStorage<EffectContext>()`，
+ * 即可让 currentEffectContext 跨越 await 依然有效
+ */
+export function setEffectContextStorage(next: EffectContextStorage): void {
+    storage = next
+}
+
+export function runInContext<R>(ctx: EffectContext, fn: () => R): R {
+    return storage.run(ctx, fn)
+}
+
+export function currentEffectContext(): EffectContext | undefined {
+    return storage.getStore()
+}
+
+/**
+ * 与 currentEffectContext 相同，但当前没有 context 时直接抛错
+ */
+export function requireEffectContext(): EffectContext {
+    const ctx = storage.getStore()
+    if (!ctx) {
+        throw new Error('no effect context, call it inside runInContext()')
+    }
+
+    return ctx
+}
+
+/**
+ * 捕获当前的 context，返回的函数被调用时会重新进入这个 context。
+ * 在没有 AsyncLocalStorage 的浏览器中，可以用它包装 await 之后、then 或者事件回调中的逻辑
+ */
+export function bindEffectContext<Args extends unknown[], R>(fn: (...args: Args) => R): (...args: Args) => R {
+    const ctx = storage.getStore()
+    if (!ctx) {
+        return fn
+    }
+
+    return (...args) => storage.run(ctx, () => fn(...args))
+}
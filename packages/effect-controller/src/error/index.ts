@@ -0,0 +1,18 @@
+import type { CleanupFailure } from '../types'
+
+/**
+ * abort 过程中一个或多个 cleanup 抛错时产生的汇总错误，errors 与 failures 一一对应
+ */
+export class EffectCleanupError extends AggregateError {
+    readonly failures: readonly CleanupFailure[]
+
+    constructor(failures: readonly CleanupFailure[]) {
+        const labels = failures.map(failure => failure.label ?? '<anonymous>')
+        super(
+            failures.map(failure => failure.error),
+            `${String(failures.length)} cleanup callback(s) failed during abort, controllers: ${labels.join(', ')}`,
+        )
+        this.name = 'EffectCleanupError'
+        this.failures = failures
+    }
+}
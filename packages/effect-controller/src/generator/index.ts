@@ -0,0 +1,156 @@
+import { createAbortReason } from '../reason'
+import { abortDetached, isPromiseLike } from '../utils'
+import type { ActionResult, EffectContext, EffectGenerator } from '../types'
+
+function isGenerator(value: unknown): value is EffectGenerator<unknown> {
+    return typeof value === 'object'
+        && value !== null
+        && typeof (value as { next?: unknown }).next === 'function'
+        && typeof (value as { throw?: unknown }).throw === 'function'
+        && typeof (value as { return?: unknown }).return === 'function'
+}
+
+const MAX_RETURN_CALLS = 100
+
+/**
+ * 结束挂起的 generator。finally 中的 yield 不会被驱动，yield 出的值会被忽略，并继续结束 generator。
+ * finally 中循环 yield 时无法结束，超过 MAX_RETURN_CALLS 次后放弃并抛错
+ */
+function closeGenerator(generator: EffectGenerator<unknown>): void {
+    for (let i = 0; i < MAX_RETURN_CALLS; i++) {
+        // finally 中 yield 之后的部分会在下一次 return() 时结束
+        if (generator.return(undefined).done) {
+            return
+        }
+    }
+
+    throw new Error(`generator did not finish after ${String(MAX_RETURN_CALLS)} return() calls`)
+}
+
+/**
+ * 从内到外结束所有 generator，某个 finally 抛错不影响外层，全部结束后抛出第一个错误
+ */
+function closeStack(stack: EffectGenerator<unknown>[]): void {
+    const errors: unknown[] = []
+    for (const generator of stack.splice(0).reverse()) {
+        try {
+            closeGenerator(generator)
+        } catch (error) {
+            errors.push(error)
+        }
+    }
+
+    if (errors.length > 0) {
+        throw errors[0]
+    }
+}
+
+/**
+ * 驱动 generator 执行，只在 context 存活期间恢复执行，不需要在每次 await 之后检查 aborted。
+ *
+ * context 被 abort 时返回的 promise 会立即 resolve 为 aborted，并从内到外对挂起的 generator 调用 return()，
+ * finally 块可以当作 cleanup 使用，但 finally 中的 yield 不会被驱动；finally 抛出的错误与 cleanup 的错误一样处理。
+ * 在 generator 执行过程中 abort（例如同步调用了 ctx.abort()）时，return() 会推迟到这一步执行结束之后。
+ * generator 抛出的错误会得到 failed 结果。
+ * generator 收到的 ctx 只在本次执行期间有效，结束后会以 disposed 原因被释放
+ */
+export function runEffect<T>(context: EffectContext, effect: (ctx: EffectContext) => EffectGenerator<T>): Promise<ActionResult<T>> {
+    if (context.aborted()) {
+        return Promise.resolve({ status: 'aborted', aborted: true, removeCleanup: () => void 0 })
+    }
+
+    const effectContext = context.createController()
+
+    return new Promise<ActionResult<T>>((resolve) => {
+        let settled = false
+        let running = false
+        const stack: EffectGenerator<unknown>[] = []
+
+        const removeAbortListener = effectContext.onAbort(() => {
+            settled = true
+            resolve({ status: 'aborted', aborted: true, removeCleanup: () => void 0 })
+
+            // 正在执行的 generator 无法调用 return()，同步的这一步一定会在 microtask 之前结束
+            if (running) {
+                return Promise.resolve().then(() => { closeStack(stack) })
+            }
+            closeStack(stack)
+        })
+
+        const settle = (result: ActionResult<T>) => {
+            settled = true
+            removeAbortListener()
+            resolve(result)
+            // 结果已经确定，ctx 上 cleanup 的错误只上报，不影响结果
+            effectContext[abortDetached](createAbortReason('disposed'))
+        }
+
+        const resume = (method: 'next' | 'throw', arg: unknown) => {
+            while (!settled) {
+                const generator = stack[stack.length - 1]
+                let step: IteratorResult<unknown> | null = null
+                let error: unknown
+                running = true
+                try {
+                    step = method === 'next' ? generator.next(arg) : generator.throw(arg)
+                } catch (e) {
+                    error = e
+                }
+                running = false
+
+                // 这一步执行的过程中可能同步触发了 abort
+                // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+                if (settled) {
+                    return
+                }
+
+                if (!step) {
+                    // 内层 generator 的错误交给外层处理
+                    stack.pop()
+                    if (stack.length === 0) {
+                        settle({ status: 'failed', aborted: false, error, removeCleanup: () => void 0 })
+                        return
+                    }
+                    method = 'throw'
+                    arg = error
+                    continue
+                }
+
+                if (step.done) {
+                    stack.pop()
+                    if (stack.length === 0) {
+                        settle({ status: 'ok', aborted: false, value: step.value as T, removeCleanup: () => void 0 })
+                        return
+                    }
+                    method = 'next'
+                    arg = step.value
+                    continue
+                }
+
+                const yielded = step.value
+                if (isGenerator(yielded)) {
+                    stack.push(yielded)
+                    method = 'next'
+                    arg = undefined
+                    continue
+                }
+
+                if (isPromiseLike(yielded)) {
+                    yielded.then((value) => { resume('next', value) }, (error: unknown) => { resume('throw', error) })
+                    return
+                }
+
+                method = 'next'
+                arg = yielded
+            }
+        }
+
+        try {
+            stack.push(effect(effectContext))
+        } catch (error) {
+            settle({ status: 'failed', aborted: false, error, removeCleanup: () => void 0 })
+            return
+        }
+        resume('next', undefined)
+    })
+}
@@ -1,2 +1,15 @@
+export * from './action'
 export * from './chore'
-export * from './types'
\ No newline at end of file
+export * from './combinator'
+export * from './context'
+export * from './error'
+export * from './generator'
+export * from './inspect'
+export * from './leak'
+export * from './logger'
+export * from './reason'
+export * from './resettable'
+export * as resource from './resource'
+export * from './stream'
+export * from './types'
+export * from './workflow'
@@ -0,0 +1,50 @@
+import type {
+    EffectControllerSnapshot,
+    EffectControllerSnapshotDiff,
+    FlatControllerSnapshot,
+} from '../types'
+
+/**
+ * 深度优先把快照树打平，父节点在子节点之前
+ */
+export function flattenSnapshot(snapshot: EffectControllerSnapshot): FlatControllerSnapshot[] {
+    const result: FlatControllerSnapshot[] = []
+
+    const visit = (node: EffectControllerSnapshot, parentPath: string | null) => {
+        const { children, ...rest } = node
+        const label = node.label ?? '<anonymous>'
+        const path = parentPath === null ? label : `${parentPath}/${label}`
+
+        result.push({ ...rest, path })
+        children.forEach(child => { visit(child, path) })
+    }
+    visit(snapshot, null)
+
+    return result
+}
+
+/**
+ * 按 id 对比两份快照，用来找出例如一次路由切换之后多出来或者残留下来的 controller
+ */
+export function diffSnapshots(before: EffectControllerSnapshot, after: EffectControllerSnapshot): EffectControllerSnapshotDiff {
+    const beforeNodes = new Map(flattenSnapshot(before).map(node => [node.id, node]))
+    const afterNodes = new Map(flattenSnapshot(after).map(node => [node.id, node]))
+
+    const diff: EffectControllerSnapshotDiff = { added: [], removed: [], changed: [] }
+    for (const [id, node] of afterNodes) {
+        const prev = beforeNodes.get(id)
+        if (!prev) {
+            diff.added.push(node)
+        } else if (prev.aborted !== node.aborted || prev.pendingCleanups !== node.pendingCleanups) {
+            diff.changed.push({ before: prev, after: node })
+        }
+    }
+
+    for (const [id, node] of beforeNodes) {
+        if (!afterNodes.has(id)) {
+            diff.removed.push(node)
+        }
+    }
+
+    return diff
+}
@@ -0,0 +1,139 @@
+import type { EffectController } from '../chore'
+import { getLabelPath } from '../logger'
+import type { EffectControllerHooks } from '../types'
+
+export interface LeakDetectorOptions {
+    /**
+     * 存活超过该时长、且仍有未执行 cleanup 的 controller 会被视为泄漏，单位 ms，默认 30s
+     */
+    thresholdMs?: number
+
+    /**
+     * 使用 FinalizationRegistry 报告没有 abort 就被 GC 回收的 controller，
+     * 开启后检测器只持有 controller 的弱引用
+     */
+    useFinalizationRegistry?: boolean
+
+    /**
+     * 返回 true 的 controller 不会被跟踪，用来排除与应用同生命周期的根 controller、路由 controller 等
+     */
+    ignore?: (ctrl: EffectController) => boolean
+
+    /**
+     * 发现泄漏时的回调，默认输出到 console.warn
+     */
+    onLeak?: (report: LeakReport) => void
+}
+
+export interface LeakReport {
+    /**
+     * - stale: 超过阈值仍未 abort
+     * - collected: 没有 abort 就被 GC 回收
+     */
+    kind: 'stale' | 'collected'
+    id: number
+    labelPath: string
+    createdAt: number
+    pendingCleanups?: number
+
+    /**
+     * controller 创建时的调用栈
+     */
+    stack: string | undefined
+}
+
+export interface LeakDetector {
+    /**
+     * 需要传给根 controller 的 hooks，子 controller 会自动继承
+     */
+    hooks: EffectControllerHooks
+
+    /**
+     * 检查当前存活的 controller，返回并通过 onLeak 报告超过阈值的 controller，
+     * 每个 controller 只会被报告一次
+     */
+    check: () => LeakReport[]
+}
+
+interface TrackedController {
+    id: number
+    labelPath: string
+    createdAt: number
+    stack: string | undefined
+    deref: () => EffectController | undefined
+    reported: boolean
+}
+
+function reportLeak(report: LeakReport) {
+    console.warn(`[LEAK] ${report.labelPath} (${report.kind})`, report)
+}
+
+export function createLeakDetector(options?: LeakDetectorOptions): LeakDetector {
+    const thresholdMs = options?.thresholdMs ?? 30_000
+    const onLeak = options?.onLeak ?? reportLeak
+    const tracked = new Map<number, TrackedController>()
+
+    const registry = options?.useFinalizationRegistry
+        ? new FinalizationRegistry<Omit<TrackedController, 'deref' | 'reported'>>((record) => {
+            tracked.delete(record.id)
+            const { id, labelPath, createdAt, stack } = record
+            onLeak({ kind: 'collected', id, labelPath, createdAt, stack })
+        })
+        : null
+
+    const hooks: EffectControllerHooks = {
+        onCreate: (ctrl) => {
+            // 关联的 signal 已经 abort 时，onAbortEnd 早于 onCreate 触发，不需要再跟踪
+            if (ctrl.aborted() || options?.ignore?.(ctrl)) {
+                return
+            }
+
+            const record = {
+                id: ctrl.id,
+                labelPath: getLabelPath(ctrl),
+                createdAt: ctrl.createdAt,
+                stack: new Error().stack,
+            }
+
+            if (registry) {
+                const ref = new WeakRef(ctrl)
+                tracked.set(ctrl.id, { ...record, deref: () => ref.deref(), reported: false })
+                registry.register(ctrl, record, ctrl)
+            } else {
+                tracked.set(ctrl.id, { ...record, deref: () => ctrl, reported: false })
+            }
+        },
+        onAbortEnd: (ctrl) => {
+            tracked.delete(ctrl.id)
+            registry?.unregister(ctrl)
+        },
+    }
+
+    const check = () => {
+        const now = Date.now()
+        const reports: LeakReport[] = []
+
+        for (const record of tracked.values()) {
+            const ctrl = record.deref()
+            if (!ctrl || ctrl.aborted() || record.reported || now - record.createdAt < thresholdMs) {
+                continue
+            }
+
+            // linkSignal、anyOf 等内部注册的 cleanup 不代表用户持有的资源，不计入
+            const snapshot = ctrl.inspect()
+            const pendingCleanups = snapshot.pendingCleanups - snapshot.internalCleanups
+            if (pendingCleanups === 0) {
+                continue
+            }
+
+            record.reported = true
+            const { id, labelPath, createdAt, stack } = record
+            reports.push({ kind: 'stale', id, labelPath, createdAt, pendingCleanups, stack })
+        }
+
+        reports.forEach(report => { onLeak(report) })
+        return reports
+    }
+
+    return { hooks, check }
+}
@@ -0,0 +1,79 @@
+import type { EffectController } from '../chore'
+import type { EffectControllerHooks } from '../types'
+
+export interface ConsoleLoggerOptions {
+    /**
+     * 默认为全局的 console
+     */
+    console?: Pick<Console, 'log' | 'error'>
+}
+
+/**
+ * 从根 controller 到当前 controller 的 debugLabel 路径，例如 `root/route/home`
+ */
+export function getLabelPath(ctrl: EffectController): string {
+    const labels: string[] = []
+    for (let curr: EffectController | null = ctrl; curr; curr = curr.parent) {
+        labels.unshift(curr.debugLabel ?? '<anonymous>')
+    }
+
+    return labels.join('/')
+}
+
+function describeCleanup(cleanup: { name: string }): string {
+    return cleanup.name || '<anonymous>'
+}
+
+/**
+ * 创建一组把生命周期打印到 console 的 hooks，只在需要调试时传给 controller
+ */
+export function createConsoleLogger(options?: ConsoleLoggerOptions): EffectControllerHooks {
+    const output = options?.console ?? console
+
+    return {
+        onCreate: (ctrl) => {
+            output.log(`[CREATE] ${getLabelPath(ctrl)}`)
+        },
+        onAbortStart: (ctrl, reason) => {
+            output.log(`[ABORT] ${getLabelPath(ctrl)}`, reason)
+        },
+        onCleanupRun: (ctrl, cleanup) => {
+            output.log(`[CLEANUP] ${getLabelPath(ctrl)} ${describeCleanup(cleanup)}`)
+        },
+        onCleanupRemoved: (ctrl, cleanup) => {
+            output.log(`[REMOVE] ${getLabelPath(ctrl)} ${describeCleanup(cleanup)}`)
+        },
+        onAbortEnd: (ctrl) => {
+            output.log(`[ABORTED] ${getLabelPath(ctrl)}`)
+        },
+        onError: (ctrl, failure) => {
+            output.error(`[ERROR] ${getLabelPath(ctrl)}`, failure.error)
+        },
+    }
+}
+
+/**
+ * 把多组 hooks 合并成一组，按传入顺序依次调用
+ */
+export function composeHooks(...hooksList: EffectControllerHooks[]): EffectControllerHooks {
+    return {
+        onCreate: (ctrl) => {
+            hooksList.forEach(hooks => hooks.onCreate?.(ctrl))
+        },
+        onAbortStart: (ctrl, reason) => {
+            hooksList.forEach(hooks => hooks.onAbortStart?.(ctrl, reason))
+        },
+        onCleanupRun: (ctrl, cleanup) => {
+            hooksList.forEach(hooks => hooks.onCleanupRun?.(ctrl, cleanup))
+        },
+        onCleanupRemoved: (ctrl, cleanup) => {
+            hooksList.forEach(hooks => hooks.onCleanupRemoved?.(ctrl, cleanup))
+        },
+        onAbortEnd: (ctrl, reason) => {
+            hooksList.forEach(hooks => hooks.onAbortEnd?.(ctrl, reason))
+        },
+        onError: (ctrl, failure) => {
+            hooksList.forEach(hooks => hooks.onError?.(ctrl, failure))
+        },
+    }
+}
@@ -0,0 +1,27 @@
+import type { AbortReasonType } from '../types'
+
+/**
+ * 内置的 abort 原因，name 与 DOMException 保持一致为 AbortError，
+ * 这样经由 signal 取消的 fetch 等 API 抛出的错误也能被按 abort 处理
+ */
+export class EffectAbortReason extends Error {
+    readonly type: AbortReasonType
+
+    constructor(type: AbortReasonType, message?: string) {
+        super(message ?? `effect aborted: ${type}`)
+        this.name = 'AbortError'
+        this.type = type
+    }
+}
+
+export function createAbortReason(type: AbortReasonType, message?: string): EffectAbortReason {
+    return new EffectAbortReason(type, message)
+}
+
+export function isAbortReason(value: unknown, type?: AbortReasonType): value is EffectAbortReason {
+    if (!(value instanceof EffectAbortReason)) {
+        return false
+    }
+
+    return type === undefined || value.type === type
+}
@@ -0,0 +1,113 @@
+import { createEffectController, EffectController } from '../chore'
+import { createAbortReason } from '../reason'
+import type { AbortFn, EffectContext, EffectControllerOptions } from '../types'
+
+/**
+ * 一个稳定的 controller 句柄，每次 reset 都会 abort 当前这一代 controller 并开始新的一代。
+ * 作为 EffectContext 使用时，所有操作都作用在当前这一代上。
+ * 传给 EffectTransaction 时，异步 action 绑定在开始时的那一代上：中途 reset 会让它得到 aborted 结果，
+ * 迟到的值会立即交给 cleanup，不会注册到新一代上
+ */
+export class ResettableEffectController implements EffectContext {
+    private readonly parent: EffectContext | null
+    private readonly options: EffectControllerOptions | undefined
+    private readonly generations = new WeakMap<EffectController, number>()
+    private _current: EffectController
+    private _generation = 0
+
+    constructor(options?: EffectControllerOptions, parent: EffectContext | null = null) {
+        this.options = options
+        this.parent = parent
+        this._current = this.createGeneration()
+    }
+
+    private createGeneration(): EffectController {
+        const ctrl = this.parent ? this.parent.createController(this.options) : createEffectController(this.options)
+        this.generations.set(ctrl, this._generation)
+        return ctrl
+    }
+
+    /**
+     * 当前这一代的 controller
+     */
+    current(): EffectController {
+        return this._current
+    }
+
+    generation(): number {
+        return this._generation
+    }
+
+    /**
+     * abort 当前这一代（默认原因为 superseded），并返回新一代的 controller。
+     * 父 context 已经 abort 时无法创建新一代，直接抛错，不修改任何状态；
+     * 当前这一代的 cleanup 抛错时，依然会先切换到新一代再抛出错误
+     */
+    reset(reason: unknown = createAbortReason('superseded')): EffectController {
+        if (this.parent?.aborted()) {
+            throw new Error('can\'t reset when parent context is aborted')
+        }
+
+        try {
+            this._current.abort(reason)
+        } finally {
+            this._generation++
+            this._current = this.createGeneration()
+        }
+
+        return this._current
+    }
+
+    /**
+     * ctx 所属的代数，ctx 可以是某一代的 controller 或者它的后代，不属于当前句柄时返回 undefined
+     */
+    generationOf(ctx: EffectContext): number | undefined {
+        for (let curr = ctx instanceof EffectController ? ctx : null; curr; curr = curr.parent) {
+            const generation = this.generations.get(curr)
+            if (generation !== undefined) {
+                return generation
+            }
+        }
+
+        return undefined
+    }
+
+    /**
+     * ctx 是否属于当前这一代并且还没有被 abort，异步流程恢复执行后可以用它判断自己是否已经过期
+     */
+    isCurrent(ctx: EffectContext): boolean {
+        return !ctx.aborted() && this.generationOf(ctx) === this._generation
+    }
+
+    aborted(): boolean {
+        return this._current.aborted()
+    }
+
+    get signal(): AbortSignal {
+        return this._current.signal
+    }
+
+    reason(): unknown {
+        return this._current.reason()
+    }
+
+    deadline(): number | undefined {
+        return this._current.deadline()
+    }
+
+    onAbort(cleanup: AbortFn): () => void {
+        return this._current.onAbort(cleanup)
+    }
+
+    use<T extends Disposable | AsyncDisposable | null | undefined>(resource: T): T {
+        return this._current.use(resource)
+    }
+
+    createController(options?: EffectControllerOptions): EffectController {
+        return this._current.createController(options)
+    }
+}
+
+export function createResettableController(options?: EffectControllerOptions, parent?: EffectContext): ResettableEffectController {
+    return new ResettableEffectController(options, parent)
+}
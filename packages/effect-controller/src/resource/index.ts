@@ -0,0 +1,212 @@
+import { markInternalCleanup } from '../utils'
+import type { ActionResult, AnyFunc, EffectContext } from '../types'
+
+type EventMapOf<T extends EventTarget> =
+    T extends Window ? WindowEventMap
+    : T extends Document ? DocumentEventMap
+    : T extends HTMLElement ? HTMLElementEventMap
+    : T extends AbortSignal ? AbortSignalEventMap
+    : T extends WebSocket ? WebSocketEventMap
+    : T extends EventSource ? EventSourceEventMap
+    : Record<string, Event>
+
+/**
+ * 与 Node EventEmitter 兼容的最小接口
+ */
+export interface EventEmitterLike {
+    on(event: string | symbol, listener: AnyFunc): unknown
+    off(event: string | symbol, listener: AnyFunc): unknown
+}
+
+/**
+ * context 存活时启动 start，并在 context abort 或调用返回的函数时执行它返回的 stop，二者只会执行一次。
+ * 资源自然结束（例如 timer 已经触发）时调用 release，从 context 上移除对应的 cleanup。
+ * 注册的 cleanup 只负责解除绑定，泄漏检测时不计入
+ */
+function bind(context: EffectContext, start: (release: () => void) => () => void): () => void {
+    if (context.aborted()) {
+        return () => void 0
+    }
+
+    let stopped = false
+    let removeCleanup: () => void = () => void 0
+    const release = () => {
+        stopped = true
+        removeCleanup()
+    }
+
+    const stop = start(release)
+    removeCleanup = context.onAbort(markInternalCleanup(() => {
+        stopped = true
+        stop()
+    }))
+
+    return () => {
+        if (stopped) {
+            return
+        }
+
+        release()
+        stop()
+    }
+}
+
+/**
+ * 等待 ms 毫秒，context 在此之前被 abort 时立即 resolve 为 aborted
+ */
+export function delay(context: EffectContext, ms: number): Promise<ActionResult<undefined>> {
+    return new Promise((resolve) => {
+        if (context.aborted()) {
+            resolve({ status: 'aborted', aborted: true, removeCleanup: () => void 0 })
+            return
+        }
+
+        bind(context, (release) => {
+            const timer = globalThis.setTimeout(() => {
+                release()
+                resolve({ status: 'ok', aborted: false, value: undefined, removeCleanup: () => void 0 })
+            }, ms)
+
+            return () => {
+                globalThis.clearTimeout(timer)
+                resolve({ status: 'aborted', aborted: true, removeCleanup: () => void 0 })
+            }
+        })
+    })
+}
+
+/**
+ * 触发后会自动从 context 上移除对应的 cleanup
+ */
+export function setTimeout<ARGS extends unknown[]>(
+    context: EffectContext,
+    callback: (...args: ARGS) => void,
+    ms?: number,
+    ...args: ARGS
+): () => void {
+    return bind(context, (release) => {
+        const timer = globalThis.setTimeout(() => {
+            release()
+            callback(...args)
+        }, ms)
+
+        return () => { globalThis.clearTimeout(timer) }
+    })
+}
+
+export function setInterval<ARGS extends unknown[]>(
+    context: EffectContext,
+    callback: (...args: ARGS) => void,
+    ms?: number,
+    ...args: ARGS
+): () => void {
+    return bind(context, () => {
+        const timer = globalThis.setInterval(callback, ms, ...args)
+
+        return () => { globalThis.clearInterval(timer) }
+    })
+}
+
+/**
+ * 不支持 requestAnimationFrame 的环境（例如 Node）下退化为 16ms 的 setTimeout
+ */
+export function requestAnimationFrame(context: EffectContext, callback: FrameRequestCallback): () => void {
+    return bind(context, (release) => {
+        const run = (time: number) => {
+            release()
+            callback(time)
+        }
+
+        if (typeof globalThis.requestAnimationFrame === 'function') {
+            const handle = globalThis.requestAnimationFrame(run)
+            return () => { globalThis.cancelAnimationFrame(handle) }
+        }
+
+        const timer = globalThis.setTimeout(() => { run(performance.now()) }, 16)
+        return () => { globalThis.clearTimeout(timer) }
+    })
+}
+
+/**
+ * 不支持 requestIdleCallback 的环境（例如 Safari、Node）下退化为 setTimeout，timeRemaining 按 50ms 的空闲时间估算
+ */
+export function requestIdleCallback(context: EffectContext, callback: IdleRequestCallback, options?: IdleRequestOptions): () => void {
+    return bind(context, (release) => {
+        const run: IdleRequestCallback = (deadline) => {
+            release()
+            callback(deadline)
+        }
+
+        if (typeof globalThis.requestIdleCallback === 'function') {
+            const handle = globalThis.requestIdleCallback(run, options)
+            return () => { globalThis.cancelIdleCallback(handle) }
+        }
+
+        const start = performance.now()
+        const timer = globalThis.setTimeout(() => {
+            run({ didTimeout: false, timeRemaining: () => Math.max(0, 50 - (performance.now() - start)) })
+        }, 1)
+        return () => { globalThis.clearTimeout(timer) }
+    })
+}
+
+/**
+ * 在下一个 microtask 执行 callback，执行前 context 已经被 abort 或调用了返回的函数时跳过
+ */
+export function queueMicrotask(context: EffectContext, callback: () => void): () => void {
+    return bind(context, (release) => {
+        let cancelled = false
+        globalThis.queueMicrotask(() => {
+            if (cancelled) {
+                return
+            }
+
+            release()
+            callback()
+        })
+
+        return () => { cancelled = true }
+    })
+}
+
+/**
+ * 为 EventTarget 添加事件监听，根据 target 的类型推导事件对象的类型。
+ * 指定 once 时，触发后会自动从 context 上移除对应的 cleanup
+ */
+export function addEventListener<T extends EventTarget, K extends keyof EventMapOf<T> & string>(
+    context: EffectContext,
+    target: T,
+    type: K,
+    listener: (this: T, event: EventMapOf<T>[K]) => void,
+    options?: boolean | AddEventListenerOptions
+): () => void {
+    const capture = typeof options === 'boolean' ? options : options?.capture
+    const once = typeof options === 'object' && options.once === true
+
+    return bind(context, (release) => {
+        const handler = function (this: T, event: Event) {
+            if (once) {
+                release()
+            }
+            listener.call(this, event as EventMapOf<T>[K])
+        }
+
+        target.addEventListener(type, handler, options)
+        return () => { target.removeEventListener(type, handler, capture) }
+    })
+}
+
+/**
+ * 为 Node EventEmitter（或实现了 on / off 的对象）添加监听
+ */
+export function addListener(
+    context: EffectContext,
+    emitter: EventEmitterLike,
+    event: string | symbol,
+    listener: AnyFunc
+): () => void {
+    return bind(context, () => {
+        emitter.on(event, listener)
+        return () => { emitter.off(event, listener) }
+    })
+}
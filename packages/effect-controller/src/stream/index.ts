@@ -0,0 +1,124 @@
+import type { EffectContext } from '../types'
+
+interface IteratorSource<T> {
+    next: () => PromiseLike<IteratorResult<T>>
+
+    /**
+     * 正常结束或出错时释放底层资源
+     */
+    release: () => void
+
+    /**
+     * 被 abort 或提前结束时取消底层数据源
+     */
+    close: (reason: unknown) => void | PromiseLike<void>
+}
+
+function createAbortableIterator<T>(context: EffectContext, source: IteratorSource<T>): AsyncIterableIterator<T> {
+    let done = false
+    let resolvePending: (() => void) | null = null
+    let removeAbortListener: () => void = () => void 0
+
+    const end = () => {
+        done = true
+        removeAbortListener()
+        resolvePending?.()
+        resolvePending = null
+    }
+
+    const close = (reason: unknown) => {
+        if (done) {
+            return
+        }
+
+        end()
+        return source.close(reason)
+    }
+
+    // 由 abort 触发的取消没有调用方关心结果，数据源 cancel 时的错误直接忽略
+    const closeByAbort = (reason: unknown) => Promise.resolve(close(reason)).catch(() => void 0)
+
+    if (context.aborted()) {
+        void closeByAbort(context.reason())
+    } else {
+        removeAbortListener = context.onAbort(closeByAbort)
+    }
+
+    return {
+        next() {
+            if (done) {
+                return Promise.resolve({ done: true, value: undefined })
+            }
+
+            // 只在消费方拉取时才向数据源请求下一项，保持背压
+            return new Promise<IteratorResult<T>>((resolve, reject) => {
+                resolvePending = () => { resolve({ done: true, value: undefined }) }
+
+                source.next().then((result) => {
+                    if (done) {
+                        return
+                    }
+
+                    resolvePending = null
+                    if (result.done) {
+                        end()
+                        source.release()
+                    }
+                    resolve(result)
+                }, (error: unknown) => {
+                    if (done) {
+                        return
+                    }
+
+                    end()
+                    source.release()
+                    // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors -- 原样透传数据源的错误
+                    reject(error)
+                })
+            })
+        },
+
+        async return(value?: unknown) {
+            await close(undefined)
+            return { done: true, value }
+        },
+
+        [Symbol.asyncIterator]() {
+            return this
+        },
+    }
+}
+
+/**
+ * 包装一个 AsyncIterable，context 被 abort 时迭代立即结束（挂起的 next 会以 done resolve），
+ * 并且底层迭代器的 return() 只会被调用一次。提前 break 时同样只调用一次 return()
+ */
+export function abortableIterable<T>(context: EffectContext, iterable: AsyncIterable<T>): AsyncIterableIterator<T> {
+    const iterator = iterable[Symbol.asyncIterator]()
+
+    return createAbortableIterator(context, {
+        next: () => iterator.next(),
+        release: () => void 0,
+        close: async () => {
+            await iterator.return?.()
+        },
+    })
+}
+
+/**
+ * 以 AsyncIterator 的方式读取 ReadableStream，context 被 abort 或提前 break 时以 abort 原因 cancel 一次 reader，
+ * 读取结束后释放 reader 的锁
+ */
+export function abortableStream<T>(context: EffectContext, stream: ReadableStream<T>): AsyncIterableIterator<T> {
+    const reader = stream.getReader()
+
+    return createAbortableIterator<T>(context, {
+        next: () => reader.read() as Promise<IteratorResult<T>>,
+        release: () => { reader.releaseLock() },
+        close: (reason) => {
+            const cancelled = reader.cancel(reason)
+            reader.releaseLock()
+            return cancelled
+        },
+    })
+}
@@ -1,11 +1,163 @@
 import type { EffectController } from '../chore'
+import type { EffectCleanupError } from '../error'
 
 export interface EffectControllerOptions {
     debugLabel?: string
+
+    /**
+     * 外部的 AbortSignal，其中任意一个触发时 controller 会被 abort
+     */
+    signal?: AbortSignal | readonly AbortSignal[]
+
+    /**
+     * abort 过程中 cleanup 抛错时的处理方式，默认为 rethrow，子 controller 会继承父 controller 的配置
+     *
+     * - rethrow: 所有 cleanup 执行完之后，抛出汇总后的 EffectCleanupError
+     * - report: 通过 reportError（不存在时使用 console.error）上报
+     * - swallow: 忽略错误
+     * - 传入函数时，由该函数处理汇总后的错误
+     */
+    errorHandler?: CleanupErrorHandler
+
+    /**
+     * 生命周期 hooks，未指定时继承父 controller 的 hooks
+     */
+    hooks?: EffectControllerHooks
+
+    /**
+     * 严格模式下，在 abort 过程中或 abort 之后调用 onAbort 会抛错，而不是立即执行 cleanup。
+     * 子 controller 会继承该配置
+     */
+    strict?: boolean
+
+    /**
+     * 从创建开始计时，超过 timeoutMs 后以 timeout 原因自动 abort
+     */
+    timeoutMs?: number
+
+    /**
+     * 到达该时间戳（单位 ms）时以 timeout 原因自动 abort，与 timeoutMs 同时指定时取较早的一个
+     */
+    deadline?: number
 }
 
+/**
+ * controller 生命周期中的观察点，可以用来输出日志、统计或检测泄漏。
+ * hook 抛出的错误会作为一次失败（带有 hook 字段）交给 errorHandler，不会中断 abort
+ */
+export interface EffectControllerHooks {
+    /**
+     * 构造完成后触发，此时 signal 已经关联、deadline 已经生效。
+     * 关联的 signal 已经 abort 时，controller 在触发之前就已经 abort
+     */
+    onCreate?: (ctrl: EffectController) => void
+    onAbortStart?: (ctrl: EffectController, reason: unknown) => void
+
+    /**
+     * 在执行 cleanup 之前触发，抛错时 cleanup 依然会执行
+     */
+    onCleanupRun?: (ctrl: EffectController, cleanup: AbortFn) => void
+
+    /**
+     * 通过 onAbort 返回的函数主动移除 cleanup 时触发
+     */
+    onCleanupRemoved?: (ctrl: EffectController, cleanup: AbortFn) => void
+    onAbortEnd?: (ctrl: EffectController, reason: unknown) => void
+    onError?: (ctrl: EffectController, failure: CleanupFailure) => void
+}
+
+export interface AbortAsyncOptions {
+    /**
+     * 等待异步 cleanup 的总时长上限，单位 ms
+     */
+    timeoutMs?: number
+}
+
+export interface CleanupRecord {
+    label: string | undefined
+    cleanup: AbortFn
+}
+
+/**
+ * abortAsync 的执行结果，按执行顺序记录每个 cleanup 的结局
+ */
+export interface AbortReport {
+    completed: CleanupRecord[]
+    failed: CleanupFailure[]
+    timedOut: CleanupRecord[]
+}
+
+export interface EffectControllerSnapshot {
+    id: number
+    label: string | null
+    aborted: boolean
+
+    /**
+     * 还没有执行的 cleanup 数量
+     */
+    pendingCleanups: number
+
+    /**
+     * pendingCleanups 中由库内部注册、用来维护关联关系的 cleanup 数量，例如关联 signal 的事件监听
+     */
+    internalCleanups: number
+    createdAt: number
+    children: EffectControllerSnapshot[]
+}
+
+/**
+ * 打平后的单个 controller 快照，path 为从快照根节点开始的 label 路径
+ */
+export type FlatControllerSnapshot = Omit<EffectControllerSnapshot, 'children'> & { path: string }
+
+export interface ControllerSnapshotChange {
+    before: FlatControllerSnapshot
+    after: FlatControllerSnapshot
+}
+
+export interface EffectControllerSnapshotDiff {
+    added: FlatControllerSnapshot[]
+    removed: FlatControllerSnapshot[]
+
+    /**
+     * 前后都存在，但 aborted 状态或 pendingCleanups 发生变化的 controller
+     */
+    changed: ControllerSnapshotChange[]
+}
+
+export interface CleanupFailure {
+    /**
+     * 出错的 controller 的 debugLabel
+     */
+    label: string | undefined
+
+    /**
+     * 抛错的 cleanup 回调，hook 抛错且与具体的 cleanup 无关时为 undefined
+     */
+    cleanup: AbortFn | undefined
+
+    /**
+     * 由 hook 抛出的错误时为 hook 的名字
+     */
+    hook?: keyof EffectControllerHooks
+
+    error: unknown
+}
+
+export type CleanupErrorHandler = 'rethrow' | 'report' | 'swallow' | ((error: EffectCleanupError) => void)
+
 export type AbortedFn = () => boolean
-export type AbortFn = () => void
+export type AbortFn = (reason: unknown) => void | PromiseLike<void>
+
+/**
+ * 内置的 abort 原因类型
+ *
+ * - navigation: 页面跳转导致的 abort，例如路由切换或 router 取消本次导航
+ * - superseded: 被新一次执行替代，例如 createEffectSwitchWrapper 切换时
+ * - timeout: 超时
+ * - disposed: 主动释放
+ */
+export type AbortReasonType = 'navigation' | 'superseded' | 'timeout' | 'disposed'
 export type ActionCleanupFn<T> = (value: T) => void
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -16,27 +168,167 @@ export type EffectSwitchCallback<Func extends AnyFunc> = (
     ...args: Parameters<Func>
 ) => ReturnType<Func>
 
+export interface EffectSwitchWrapperOptions extends EffectControllerOptions {
+    /**
+     * 切换时 abort 上一个 controller 使用的原因，默认为 superseded，用于路由切换时可以指定为 navigation
+     */
+    switchReason?: AbortReasonType
+}
+
 export type EffectSwitchWrapperFn<Func extends AnyFunc> = (cb: EffectSwitchCallback<Func>) => Func
 
+/**
+ * action 的结局
+ *
+ * - ok: 正常完成，context 仍然有效
+ * - aborted: context 在执行前或执行中被 abort
+ * - failed: context 仍然有效，但 action 本身 reject 了
+ */
+export type ActionStatus = 'ok' | 'aborted' | 'failed'
+
 export interface ActionSuccessResult<T> {
+    status: 'ok'
     aborted: false
     value: T
     removeCleanup: () => void
 }
 
 export interface ActionErrorResult<T> {
+    status: 'aborted'
     aborted: true
     value?: T
     removeCleanup: () => void
 }
 
-export type ActionResult<T> = ActionSuccessResult<T> | ActionErrorResult<T>
+export interface ActionFailedResult {
+    status: 'failed'
+    aborted: false
+    error: unknown
+    removeCleanup: () => void
+}
+
+export type ActionResult<T> = ActionSuccessResult<T> | ActionErrorResult<T> | ActionFailedResult
+
+/**
+ * 异步 action reject 时如何处理 action 子 context 上注册的 cleanup
+ *
+ * - rollback: 立即释放子 context，执行其中的 cleanup
+ * - keep: 保留子 context，等到 context abort 时再执行
+ */
+export type ActionFailurePolicy = 'rollback' | 'keep'
+
+export interface ActionOptions {
+    /**
+     * 默认为 rollback
+     */
+    onFailure?: ActionFailurePolicy
+}
+
+/**
+ * EffectTransaction 的状态
+ *
+ * - active: 还可以继续执行 action
+ * - committed: 已经 commit，cleanup 移交给了 context
+ * - rolledBack: 已经 rollback，本事务的 cleanup 都已执行
+ * - aborted: commit / rollback 之前 context 就被 abort 了
+ */
+export type TransactionState = 'active' | 'committed' | 'rolledBack' | 'aborted'
+
+export interface ActionResultMatcher<T, R> {
+    ok: (value: T) => R
+    aborted: (value: T | undefined) => R
+    failed: (error: unknown) => R
+}
+
+/**
+ * 交给 runEffect 驱动的 generator，yield 的 promise 会被等待，结果作为 yield 表达式的值；
+ * yield 另一个 generator 时会先执行完它，其返回值作为 yield 表达式的值
+ */
+export type EffectGenerator<T> = Generator<unknown, T>
+
+export interface WorkflowStep<T> {
+    /**
+     * 执行该步骤，ctx 只在该步骤执行期间有效
+     */
+    run: (ctx: EffectContext) => T | PromiseLike<T>
+
+    /**
+     * 撤销已经完成的该步骤，拿到 run 的返回值
+     */
+    compensate?: (value: T) => void | PromiseLike<void>
+}
+
+/**
+ * workflow 中单个步骤的结局
+ *
+ * - skipped: 没有开始执行
+ * - completed: 执行完成，且没有被撤销
+ * - compensated: 执行完成后被撤销
+ * - compensationFailed: 撤销时出错
+ * - failed: 执行时出错
+ * - aborted: 执行中 context 被 abort，没有拿到结果
+ */
+export type WorkflowStepStatus = 'skipped' | 'completed' | 'compensated' | 'compensationFailed' | 'failed' | 'aborted'
+
+export interface WorkflowStepReport {
+    name: string
+    status: WorkflowStepStatus
+
+    /**
+     * status 为 failed 或 compensationFailed 时的错误
+     */
+    error?: unknown
+}
+
+export interface WorkflowRunOptions {
+    /**
+     * abort 时等待执行中的步骤拿到结果的时长上限，单位 ms，默认为 0，即不等待
+     */
+    lateStepTimeoutMs?: number
+
+    /**
+     * 超时之后才拿到结果的步骤撤销结束时的回调，report 是单独的对象，不会出现在 run 返回的报告中。
+     * 默认在撤销失败时输出到 console.error
+     */
+    onLateCompensation?: (report: WorkflowStepReport) => void
+}
+
+export interface WorkflowReport {
+    status: ActionStatus
+    steps: WorkflowStepReport[]
+
+    /**
+     * status 为 failed 时，导致失败的错误
+     */
+    error?: unknown
+}
 
 export interface EffectContext {
     aborted: AbortedFn
 
+    /**
+     * 与 context 生命周期绑定的原生 AbortSignal，context（或任意祖先）被 abort 时触发
+     * 可以直接传给 fetch、addEventListener 等只接受 AbortSignal 的 Web API
+     */
+    readonly signal: AbortSignal
+
+    /**
+     * abort 的原因，未 abort 或 abort 时未提供原因时为 undefined
+     */
+    reason(): unknown
+
+    /**
+     * 生效的 deadline 时间戳，为自身与所有祖先中最早的一个，没有 deadline 时为 undefined
+     */
+    deadline(): number | undefined
+
     onAbort(cleanup: AbortFn): () => void
 
+    /**
+     * 把 Disposable / AsyncDisposable 的释放注册为 cleanup，返回 resource 本身
+     */
+    use<T extends Disposable | AsyncDisposable | null | undefined>(resource: T): T
+
     /**
      * 返回一个子 controller, effectController 被 abort 时，也会 abort 子 controller
      *
@@ -0,0 +1,26 @@
+import type { AbortFn } from '../types'
+
+/**
+ * EffectController 上只供库内部使用的方法：abort 时 cleanup 的错误只上报不抛出，用在没有调用方可以接住错误的地方
+ */
+export const abortDetached = Symbol('abortDetached')
+
+export function isPromiseLike<T = unknown>(value: unknown): value is PromiseLike<T> {
+    return (typeof value === 'object' || typeof value === 'function')
+        && value !== null
+        && typeof (value as { then?: unknown }).then === 'function'
+}
+
+const internalCleanups = new WeakSet<AbortFn>()
+
+/**
+ * 标记库内部用来维护关联关系的 cleanup（例如注销事件监听），它们不代表用户持有的资源，泄漏检测时不计入
+ */
+export function markInternalCleanup<T extends AbortFn>(cleanup: T): T {
+    internalCleanups.add(cleanup)
+    return cleanup
+}
+
+export function isInternalCleanup(cleanup: AbortFn): boolean {
+    return internalCleanups.has(cleanup)
+}
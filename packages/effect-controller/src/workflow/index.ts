@@ -0,0 +1,161 @@
+import { EffectTransaction } from '../chore'
+import type {
+    ActionStatus,
+    EffectContext,
+    WorkflowReport,
+    WorkflowRunOptions,
+    WorkflowStep,
+    WorkflowStepReport,
+} from '../types'
+
+interface WorkflowStepEntry {
+    name: string
+    run: (ctx: EffectContext) => unknown
+    compensate?: (value: unknown) => void | PromiseLike<void>
+}
+
+interface LateStep {
+    report: WorkflowStepReport
+    value: Promise<unknown>
+    compensate: (value: unknown) => void | PromiseLike<void>
+}
+
+function reportLateCompensation(report: WorkflowStepReport) {
+    if (report.status === 'compensationFailed') {
+        console.error(`[workflow] late compensation of ${report.name} failed`, report.error)
+    }
+}
+
+/**
+ * saga 风格的多步骤流程：按顺序执行步骤，遇到 abort 或失败时停止，
+ * 并按逆序逐个撤销已经完成的步骤，前一个撤销结束之后才开始下一个。全部成功时不再需要撤销，compensate 会被丢弃。
+ *
+ * abort 时最多等待 lateStepTimeoutMs 让执行中的步骤拿到结果，拿到时作为最后完成的步骤最先撤销；
+ * 超时之后才拿到的结果会在其余撤销全部结束之后撤销，结局交给 onLateCompensation，不会修改已经返回的报告
+ */
+export class Workflow {
+    private readonly steps: WorkflowStepEntry[] = []
+
+    step<T>(name: string, step: WorkflowStep<T>): this {
+        const { compensate } = step
+        this.steps.push({
+            name,
+            run: step.run,
+            compensate: compensate && ((value) => compensate(value as T)),
+        })
+        return this
+    }
+
+    async run(context: EffectContext, options?: WorkflowRunOptions): Promise<WorkflowReport> {
+        const txn = new EffectTransaction(context)
+        const reports: WorkflowStepReport[] = this.steps.map(({ name }) => ({ name, status: 'skipped' }))
+        const compensations: (() => Promise<void>)[] = []
+        let lateStep: LateStep | undefined
+        let status: ActionStatus = 'ok'
+        let error: unknown
+
+        for (const [index, step] of this.steps.entries()) {
+            const report = reports[index]
+            if (txn.state() !== 'active') {
+                status = 'aborted'
+                break
+            }
+
+            const { compensate } = step
+            let resolveLateValue: (value: unknown) => void = () => void 0
+            const lateValue = new Promise<unknown>((resolve) => {
+                resolveLateValue = resolve
+            })
+            const result = await txn.race(
+                (actionContext) => Promise.resolve(step.run(actionContext)),
+                compensate && ((value) => {
+                    resolveLateValue(value)
+                }),
+            )
+
+            if (result.status === 'ok') {
+                // 撤销由 workflow 按顺序执行，不交给 context
+                result.removeCleanup()
+                report.status = 'completed'
+                if (compensate) {
+                    compensations.push(() => runCompensation(report, () => compensate(result.value)))
+                }
+                continue
+            }
+
+            if (result.status === 'aborted') {
+                report.status = 'aborted'
+                status = 'aborted'
+                if (compensate) {
+                    const settled = await waitFor(lateValue, options?.lateStepTimeoutMs ?? 0)
+                    if (settled) {
+                        compensations.push(() => runCompensation(report, () => compensate(settled.value)))
+                    } else {
+                        lateStep = { report: { name: report.name, status: 'aborted' }, value: lateValue, compensate }
+                    }
+                }
+                break
+            }
+
+            report.status = 'failed'
+            report.error = result.error
+            status = 'failed'
+            error = result.error
+            break
+        }
+
+        if (status !== 'ok') {
+            for (const compensation of compensations.reverse()) {
+                await compensation()
+            }
+        }
+
+        if (lateStep) {
+            const { report, value, compensate } = lateStep
+            const onLateCompensation = options?.onLateCompensation ?? reportLateCompensation
+            void value.then(async (lateValue) => {
+                await runCompensation(report, () => compensate(lateValue))
+                onLateCompensation(report)
+            })
+        }
+
+        return status === 'failed' ? { status, steps: reports, error } : { status, steps: reports }
+    }
+}
+
+/**
+ * 执行一次撤销并把结局记录到 report 上，同步抛错与 reject 一样记为 compensationFailed
+ */
+function runCompensation(report: WorkflowStepReport, compensate: () => void | PromiseLike<void>): Promise<void> {
+    return new Promise<void>((resolve) => {
+        resolve(compensate())
+    }).then(() => {
+        report.status = 'compensated'
+    }, (error: unknown) => {
+        report.status = 'compensationFailed'
+        report.error = error
+    })
+}
+
+/**
+ * 最多等待 timeoutMs，超时返回 undefined
+ */
+function waitFor<T>(promise: Promise<T>, timeoutMs: number): Promise<{ value: T } | undefined> {
+    if (timeoutMs <= 0) {
+        return Promise.resolve(undefined)
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => {
+            resolve(undefined)
+        }, timeoutMs)
+    })
+    return Promise.race([promise.then(value => ({ value })), timeout]).finally(() => {
+        clearTimeout(timer)
+    })
+}
+
+export function createWorkflow(): Workflow {
+    return new Workflow()
+}
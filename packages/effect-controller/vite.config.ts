@@ -1,12 +1,10 @@
 import { defineConfig } from 'vite'
 import dts from 'vite-plugin-dts'
-import removeConsole from 'vite-plugin-remove-console'
 // import Path from 'path'
 
 export default defineConfig({
     root: '.',
     plugins: [
-        removeConsole(),
         dts({
             insertTypesEntry: true,
             include: ['src'],
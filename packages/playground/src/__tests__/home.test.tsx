@@ -2,14 +2,19 @@ import { setupApp } from "../setup";
 import { createMemoryRouter, RouterProvider } from "react-router-dom";
 import { StrictMode } from "react";
 import { act, cleanup, render, screen } from "@testing-library/react";
-import { describe, it, afterEach, beforeEach, expect, vitest } from "vitest"
+import { describe, it, afterEach, beforeEach, expect, vitest, type MockInstance } from "vitest"
+import { http, HttpResponse } from "msw";
+import { createEffectController, isAbortReason } from "@react-effect-cleanup/effect-controller";
+import { server } from "../mock-server/server";
 
 describe('Home 页面', () => {
     let appContext: ReturnType<typeof setupApp>;
     let router: ReturnType<typeof createMemoryRouter>;
+    let fetchSpy: MockInstance<typeof fetch>;
 
     beforeEach(() => {
         vitest.useFakeTimers()
+        fetchSpy = vitest.spyOn(globalThis, 'fetch')
         appContext = setupApp();
         router = createMemoryRouter(appContext.routes);
         render(<RouterProvider router={router} />, { wrapper: StrictMode })
@@ -17,6 +22,7 @@ describe('Home 页面', () => {
 
     afterEach(() => {
         cleanup()
+        fetchSpy.mockRestore()
         vitest.useRealTimers()
     })
 
@@ -32,4 +38,27 @@ describe('Home 页面', () => {
         expect(await screen.findByText('Foo Page')).toBeTruthy()
         expect(appContext.userStore.getState()._loading).toBeFalsy()
     })
-})
\ No newline at end of file
+
+    it('切换页面时应该立即取消正在进行的请求', async () => {
+        act(() => {
+            void router.navigate('/foo')
+        })
+
+        expect(await screen.findByText('Foo Page')).toBeTruthy()
+        expect(fetchSpy).toBeCalled()
+        expect(fetchSpy.mock.calls[0][1]?.signal?.aborted).toBe(true)
+        expect(isAbortReason(fetchSpy.mock.calls[0][1]?.signal?.reason, 'navigation')).toBe(true)
+        expect(appContext.userStore.getState()._loading).toBeFalsy()
+    })
+
+    it('请求失败时应该记录错误，并重置 loading', async () => {
+        server.use(http.get('/api/users/current', () => HttpResponse.json({}, { status: 500 })))
+        const ctrl = createEffectController()
+
+        await appContext.userStore.getState().fetch(ctrl)
+
+        expect(appContext.userStore.getState()._loading).toBe(false)
+        expect(appContext.userStore.getState().error).toBeInstanceOf(Error)
+        ctrl.abort()
+    })
+})
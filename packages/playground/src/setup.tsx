@@ -1,5 +1,5 @@
-import { RouteObject } from "react-router-dom";
-import { EffectContext, EffectController, createEffectController, createEffectSwitchWrapper, EffectTransaction } from "@react-effect-cleanup/effect-controller";
+import { LoaderFunctionArgs, RouteObject } from "react-router-dom";
+import { EffectContext, EffectController, createEffectController, createEffectSwitchWrapper, EffectTransaction, createConsoleLogger, createLeakDetector, composeHooks, EffectControllerHooks, resource, createAbortReason } from "@react-effect-cleanup/effect-controller";
 import { Home } from "./components/home";
 import { createUserStore } from "./store/user";
 import { RootProvider } from "./store/root-context";
@@ -31,15 +31,9 @@ function setupLoadingToastWithPerfectCleanup(ctx: EffectContext, userStore: Retu
                 const currToastId = loadingToastId
                 loadingToastId = null
 
-                txn.act(() => {
-                    const timer = setTimeout(() => {
-                        toast.dismiss(currToastId)
-                    }, 1000)
-
-                    return timer;
-                }, (timer) => {
-                    clearTimeout(timer)
-                })
+                resource.setTimeout(ctx, () => {
+                    toast.dismiss(currToastId)
+                }, 1000)
             }
         })
     }, (unsubscribe) => {
@@ -51,12 +45,54 @@ function setupLoadingToastWithPerfectCleanup(ctx: EffectContext, userStore: Retu
     })
 }
 
+/**
+ * 与页面同生命周期的 controller，由路由切换负责 abort，不需要检查泄漏
+ */
+const LONG_LIVED_LABELS = new Set(['root', 'route', 'home'])
+
+/**
+ * 本地开发时输出 controller 的生命周期日志，并定期检查没有被 abort 的 controller
+ */
+function setupDevtools(): { hooks: EffectControllerHooks, checkLeaks: () => void } | null {
+    if (import.meta.env.MODE !== 'development') {
+        return null
+    }
+
+    const leakDetector = createLeakDetector({
+        thresholdMs: 60_000,
+        useFinalizationRegistry: true,
+        ignore: (ctrl) => ctrl.debugLabel !== undefined && LONG_LIVED_LABELS.has(ctrl.debugLabel),
+    })
+    return {
+        hooks: composeHooks(createConsoleLogger(), leakDetector.hooks),
+        checkLeaks: () => { leakDetector.check() },
+    }
+}
+
 export function setupApp(): AppContext {
     const userStore = createUserStore()
-    const rootEffectController = createEffectController({ debugLabel: 'root' })
-    const switchContext = createEffectSwitchWrapper(rootEffectController, { debugLabel: 'route' })
+    const devtools = setupDevtools()
+    const rootEffectController = createEffectController({
+        debugLabel: 'root',
+        hooks: devtools?.hooks,
+    })
+    if (devtools) {
+        const timer = setInterval(devtools.checkLeaks, 10_000)
+        rootEffectController.onAbort(() => { clearInterval(timer) })
+    }
+    const switchContext = createEffectSwitchWrapper(rootEffectController, { debugLabel: 'route', switchReason: 'navigation' })
+
+    function setupHomePage(routeCtx: EffectContext, { request }: LoaderFunctionArgs) {
+        const ctx = routeCtx.createController({ debugLabel: 'home' })
+
+        // router 取消本次导航时（例如加载过程中又跳转到其他页面），页面内的副作用也以 navigation 原因一起 abort
+        const abortByNavigation = () => { ctx.abort(createAbortReason('navigation')) }
+        if (request.signal.aborted) {
+            abortByNavigation()
+        } else {
+            resource.addEventListener(ctx, request.signal, 'abort', abortByNavigation, { once: true })
+        }
 
-    function setupHomePage(ctx: EffectContext) {
         // 下面的写法可以阻塞页面加载，让 router 展示全局 loading
         // await userStore.getState().fetch(ctx)
 
@@ -1,8 +1,9 @@
-import { EffectContext, EffectTransaction } from '@react-effect-cleanup/effect-controller';
+import { EffectContext, EffectTransaction, matchActionResult } from '@react-effect-cleanup/effect-controller';
 import { create } from "zustand";
 
 export interface UserState {
     name: string,
+    error: unknown,
     _loading: boolean,
     fetch: (ctx: EffectContext) => Promise<void>
 }
@@ -10,25 +11,37 @@ export interface UserState {
 export function createUserStore() {
     return create<UserState>((set) => ({
         name: '',
+        error: null,
         _loading: false,
         fetch: async (ctx) => {
             const txn = new EffectTransaction(ctx)
-            const { value, aborted, removeCleanup } = await txn.actAsync(async () => {
+            const result = await txn.actAsync(async (actionContext) => {
                 console.log('set loading')
-                set({ _loading: true })
+                set({ _loading: true, error: null })
+                // loading 只在请求期间有效，action 结束或被 abort 时都会重置
+                actionContext.onAbort(() => {
+                    console.log('set loading false')
+                    set({ _loading: false })
+                })
 
-                const res = await fetch('/api/users/current');
+                const res = await fetch('/api/users/current', { signal: actionContext.signal });
+                if (!res.ok) {
+                    throw new Error(`fetch user failed: ${String(res.status)}`)
+                }
                 return await res.json() as UserState
-            }, () => {
-                console.log('set loading false')
-                set({ _loading: false })
             })
 
-            if (aborted) {
-                return;
-            }
-            removeCleanup()
-            set({ _loading: false, name: value.name })
+            matchActionResult(result, {
+                ok: (user) => {
+                    txn.commit()
+                    set({ name: user.name })
+                },
+                aborted: () => void 0,
+                failed: (error) => {
+                    txn.rollback()
+                    set({ error })
+                },
+            })
         }
     }))
-}
\ No newline at end of file
+}